@@ -0,0 +1,115 @@
+// broadcast.service.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  claimDueBroadcasts: vi.fn(),
+  createBroadcast: vi.fn(),
+  releaseBroadcast: vi.fn(),
+  finishBroadcast: vi.fn(),
+  listUsersByRole: vi.fn(),
+  sendNotificationToUser: vi.fn()
+}));
+
+vi.mock("@getcronit/pylon", () => ({
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("../src/utils/authorization", () => ({
+  currentUserId: () => "admin",
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/user.service", () => ({
+  UserService: { listUsersByRole: mocks.listUsersByRole }
+}));
+vi.mock("../src/notification.service", () => ({
+  NotificationService: { sendNotificationToUser: mocks.sendNotificationToUser }
+}));
+vi.mock("../src/d1.service", () => ({
+  D1Service: {
+    claimDueBroadcasts: mocks.claimDueBroadcasts,
+    createBroadcast: mocks.createBroadcast,
+    releaseBroadcast: mocks.releaseBroadcast,
+    finishBroadcast: mocks.finishBroadcast
+  }
+}));
+
+import { BroadcastService } from "../src/broadcast.service";
+
+const BROADCAST = {
+  id: 7,
+  roleKey: "driver",
+  userIds: null,
+  title: "Glatteis",
+  body: null,
+  url: null,
+  urgent: true,
+  status: "sending"
+};
+
+describe("BroadcastService.runScheduledBroadcasts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.claimDueBroadcasts.mockResolvedValue([BROADCAST]);
+    mocks.releaseBroadcast.mockResolvedValue(true);
+    mocks.finishBroadcast.mockResolvedValue(undefined);
+    mocks.sendNotificationToUser.mockResolvedValue({
+      delivered: 1,
+      emailed: 0,
+      muted: 0,
+      deferred: 0,
+      failed: 0
+    });
+  });
+
+  it("sends a due broadcast to everybody with the role", async () => {
+    mocks.listUsersByRole.mockResolvedValue([{ id: "d1" }, { id: "d2" }]);
+
+    const result = await BroadcastService.runScheduledBroadcasts();
+
+    expect(result).toEqual({ sent: 1 });
+    expect(mocks.finishBroadcast).toHaveBeenCalledWith(7, [
+      expect.objectContaining({ userId: "d1", status: "delivered" }),
+      expect.objectContaining({ userId: "d2", status: "delivered" })
+    ]);
+    expect(mocks.releaseBroadcast).not.toHaveBeenCalled();
+  });
+
+  it("keeps the broadcast scheduled if recipients can't be resolved", async () => {
+    mocks.listUsersByRole.mockRejectedValue(new Error("ZITADEL down"));
+
+    const result = await BroadcastService.runScheduledBroadcasts();
+
+    expect(result).toEqual({ sent: 0 });
+    expect(mocks.releaseBroadcast).toHaveBeenCalledWith(7);
+    expect(mocks.finishBroadcast).not.toHaveBeenCalled();
+    expect(mocks.sendNotificationToUser).not.toHaveBeenCalled();
+  });
+});
+
+describe("BroadcastService.broadcastNotification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.createBroadcast.mockImplementation(async (data: any) => ({
+      ...BROADCAST,
+      ...data,
+      userIds: null
+    }));
+    mocks.releaseBroadcast.mockResolvedValue(true);
+  });
+
+  it("leaves the broadcast to cron if recipients can't be resolved", async () => {
+    mocks.listUsersByRole.mockRejectedValue(new Error("ZITADEL down"));
+
+    const result = await BroadcastService.broadcastNotification(
+      { roleKey: "driver" },
+      { title: "Glatteis", urgent: true }
+    );
+
+    expect(mocks.createBroadcast).toHaveBeenCalledTimes(1);
+    expect(mocks.releaseBroadcast).toHaveBeenCalledWith(7);
+    expect(result).toMatchObject({ id: 7, status: "scheduled" });
+    expect(mocks.finishBroadcast).not.toHaveBeenCalled();
+  });
+});
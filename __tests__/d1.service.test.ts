@@ -0,0 +1,203 @@
+// d1.service.test.ts
+//
+// Invoice numbering against a local D1 (wrangler's platform proxy, in
+// memory), since it relies on SQLite's changes() across a batch.
+import { readFileSync } from "node:fs";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi
+} from "vitest";
+import { getPlatformProxy } from "wrangler";
+import type { D1Database } from "@cloudflare/workers-types";
+
+const env = vi.hoisted(() => ({ DB: undefined as any }));
+
+vi.mock("@getcronit/pylon", () => ({
+  getEnv: () => env,
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("../src/utils/authorization", () => ({
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/prisma", () => ({ getPrisma: () => ({}) }));
+
+import { D1Service } from "../src/d1.service";
+
+let proxy: Awaited<ReturnType<typeof getPlatformProxy>>;
+let db: D1Database;
+
+beforeAll(async () => {
+  proxy = await getPlatformProxy({ persist: false });
+  db = env.DB = (proxy.env as any).DB;
+  const sql = readFileSync("migrations/20261019240000_invoices.sql", "utf8");
+  await db.batch(
+    sql
+      .split(";")
+      .map((s) => s.replace(/--.*$/gm, "").trim())
+      .filter(Boolean)
+      .map((s) => db.prepare(s))
+  );
+}, 60_000);
+
+afterAll(async () => {
+  await proxy?.dispose();
+});
+
+async function draft(kind: "invoice" | "creditNote" = "invoice") {
+  const row = await db
+    .prepare(
+      `INSERT INTO "Invoice" ("kind", "customerId", "periodFrom", "periodUntil", "transportVatPercent", "extrasVatPercent", "earlyPaymentDiscountPercent", "voucherPayment", "updatedAt")
+       VALUES (?, 'c1', '2026-09-01', '2026-09-30', 10, 20, 0, 'Gutschein', ?)
+       RETURNING "id"`
+    )
+    .bind(kind, new Date().toISOString())
+    .first<{ id: number }>();
+  return row!.id;
+}
+
+async function invoice(id: number) {
+  return db
+    .prepare(`SELECT "status", "number" FROM "Invoice" WHERE "id" = ?`)
+    .bind(id)
+    .first<{ status: string; number: string | null }>();
+}
+
+async function lastNumber(year: number) {
+  const row = await db
+    .prepare(`SELECT "last" FROM "InvoiceNumberSequence" WHERE "year" = ?`)
+    .bind(year)
+    .first<{ last: number }>();
+  return row?.last ?? 0;
+}
+
+function issue(
+  id: number,
+  year = 2026,
+  cancel?: { invoiceId: number; reason: string | null }
+) {
+  return D1Service.issueInvoice(id, {
+    year,
+    issueDateISO: `${year}-10-19`,
+    issuedBy: "billing",
+    cancel
+  });
+}
+
+describe("D1Service.issueInvoice", () => {
+  beforeEach(async () => {
+    await db.batch([
+      db.prepare(`DELETE FROM "InvoiceLine"`),
+      db.prepare(`DELETE FROM "Invoice"`),
+      db.prepare(`DELETE FROM "InvoiceNumberSequence"`)
+    ]);
+  });
+
+  it("numbers invoices of a year without gaps", async () => {
+    const a = await draft();
+    const b = await draft();
+
+    expect(await issue(a)).toBe(true);
+    expect(await issue(b)).toBe(true);
+
+    expect(await invoice(a)).toEqual({ status: "issued", number: "2026-0001" });
+    expect(await invoice(b)).toEqual({ status: "issued", number: "2026-0002" });
+  });
+
+  it("issues a draft once when it is issued concurrently", async () => {
+    const a = await draft();
+
+    const results = await Promise.all([issue(a), issue(a), issue(a)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await invoice(a)).toEqual({ status: "issued", number: "2026-0001" });
+    expect(await lastNumber(2026)).toBe(1);
+
+    const b = await draft();
+    await issue(b);
+    expect((await invoice(b))?.number).toBe("2026-0002");
+  });
+
+  it("gives concurrently issued drafts distinct numbers", async () => {
+    const ids = [await draft(), await draft(), await draft()];
+
+    await Promise.all(ids.map((id) => issue(id)));
+
+    const numbers = await Promise.all(
+      ids.map(async (id) => (await invoice(id))?.number)
+    );
+    expect([...numbers].sort()).toEqual([
+      "2026-0001",
+      "2026-0002",
+      "2026-0003"
+    ]);
+  });
+
+  it("does not use up a number for an invoice that is no draft", async () => {
+    const a = await draft();
+    await issue(a);
+
+    expect(await issue(a)).toBe(false);
+    expect(await invoice(a)).toEqual({ status: "issued", number: "2026-0001" });
+    expect(await lastNumber(2026)).toBe(1);
+  });
+
+  it("cancels the invoice and issues the Storno together", async () => {
+    const a = await draft();
+    await issue(a);
+    const storno = await draft("creditNote");
+
+    const cancel = { invoiceId: a, reason: "Fehler" };
+    expect(await issue(storno, 2026, cancel)).toBe(true);
+
+    expect(await invoice(a)).toEqual({
+      status: "canceled",
+      number: "2026-0001"
+    });
+    expect(await invoice(storno)).toEqual({
+      status: "issued",
+      number: "2026-0002"
+    });
+  });
+
+  it("leaves everything as it was when the Storno fails", async () => {
+    const a = await draft();
+    await issue(a);
+    const first = await draft("creditNote");
+    await issue(first, 2026, { invoiceId: a, reason: "Fehler" });
+
+    // The invoice is canceled already, so a second Storno must not apply
+    const second = await draft("creditNote");
+    const cancel = { invoiceId: a, reason: "Nochmal" };
+    expect(await issue(second, 2026, cancel)).toBe(false);
+
+    expect(await invoice(second)).toEqual({ status: "draft", number: null });
+    expect(await lastNumber(2026)).toBe(2);
+
+    const b = await draft();
+    await issue(b);
+    expect((await invoice(b))?.number).toBe("2026-0003");
+  });
+
+  it("starts again at 0001 in a new year", async () => {
+    const a = await draft();
+    const b = await draft();
+    const c = await draft();
+
+    await issue(a, 2026);
+    await issue(b, 2026);
+    await issue(c, 2027);
+
+    expect((await invoice(c))?.number).toBe("2027-0001");
+    expect(await lastNumber(2026)).toBe(2);
+
+    const d = await draft();
+    await issue(d, 2026);
+    expect((await invoice(d))?.number).toBe("2026-0003");
+  });
+});
@@ -0,0 +1,142 @@
+// invoice.service.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  findInvoice: vi.fn(),
+  listCreditNotesFor: vi.fn(),
+  createInvoice: vi.fn(),
+  issueInvoice: vi.fn()
+}));
+
+vi.mock("@getcronit/pylon", () => ({
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("../src/utils/authorization", () => ({
+  assertPermission: async () => undefined,
+  currentUserId: () => "billing",
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/billing.service", () => ({ BillingService: {} }));
+vi.mock("../src/transfer.service", () => ({ TransferService: {} }));
+vi.mock("../src/d1.service", () => ({
+  D1Service: {
+    findInvoice: mocks.findInvoice,
+    listCreditNotesFor: mocks.listCreditNotesFor,
+    createInvoice: mocks.createInvoice,
+    issueInvoice: mocks.issueInvoice,
+    deleteDraftInvoice: async () => true
+  }
+}));
+
+import { InvoiceService } from "../src/invoice.service";
+
+function line(position: number, transferId: string | null, amountEUR: number) {
+  return {
+    position,
+    kind: transferId ? "transport" : "extra",
+    transferId,
+    rideDateISO: transferId ? "2026-09-10" : null,
+    description: transferId ?? "Parken",
+    amountEUR,
+    vatPercent: transferId ? 10 : 20,
+    voucher: false
+  };
+}
+
+const INVOICE = {
+  id: 1,
+  kind: "invoice",
+  status: "issued",
+  number: "2026-0007",
+  customerId: "c1",
+  customerName: "Hotel Sacher",
+  periodFrom: "2026-09-01",
+  periodUntil: "2026-09-30",
+  transportVatPercent: 10,
+  extrasVatPercent: 20,
+  earlyPaymentDiscountPercent: 0,
+  voucherPayment: "Gutschein",
+  lines: [line(1, "tr_1", 50), line(2, "tr_2", 70), line(3, null, 5)]
+};
+
+const PARTIAL_CREDIT = {
+  id: 2,
+  kind: "creditNote",
+  status: "issued",
+  correctsInvoiceId: 1,
+  lines: [line(1, "tr_1", -50)]
+};
+
+describe("InvoiceService credit notes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findInvoice.mockImplementation(async (id: number) =>
+      id === 1 ? INVOICE : { ...INVOICE, id, kind: "creditNote", lines: [] }
+    );
+    mocks.createInvoice.mockImplementation(async (data: any, lines: any) => ({
+      ...data,
+      id: 3,
+      lines
+    }));
+    mocks.issueInvoice.mockResolvedValue(true);
+    mocks.listCreditNotesFor.mockResolvedValue([]);
+  });
+
+  it("credits a ride of an issued invoice", async () => {
+    await InvoiceService.createCreditNoteDraft(1, ["tr_1"], "Doppelt");
+
+    const [data, lines] = mocks.createInvoice.mock.calls[0];
+    expect(data).toMatchObject({ kind: "creditNote", correctsInvoiceId: 1 });
+    expect(lines).toEqual([
+      expect.objectContaining({ transferId: "tr_1", amountEUR: -50 })
+    ]);
+  });
+
+  it("refuses to credit a ride twice", async () => {
+    mocks.listCreditNotesFor.mockResolvedValue([PARTIAL_CREDIT]);
+
+    await expect(
+      InvoiceService.createCreditNoteDraft(1, ["tr_1", "tr_2"], "Nochmal")
+    ).rejects.toThrow("Credited already: tr_1");
+    expect(mocks.createInvoice).not.toHaveBeenCalled();
+  });
+
+  it("cancels only what earlier credit notes left open", async () => {
+    mocks.listCreditNotesFor.mockResolvedValue([PARTIAL_CREDIT]);
+
+    await InvoiceService.cancelInvoice(1, "Falscher Kunde");
+
+    const [data, lines] = mocks.createInvoice.mock.calls[0];
+    expect(lines.map((l: any) => [l.transferId, l.amountEUR])).toEqual([
+      ["tr_2", -70],
+      [null, -5]
+    ]);
+    expect(data.sumEUR).toBe(-75);
+    expect(mocks.issueInvoice).toHaveBeenCalledWith(
+      3,
+      expect.objectContaining({
+        cancel: { invoiceId: 1, reason: "Falscher Kunde" }
+      })
+    );
+  });
+
+  it("refuses to cancel an invoice that is fully credited", async () => {
+    mocks.listCreditNotesFor.mockResolvedValue([
+      PARTIAL_CREDIT,
+      {
+        ...PARTIAL_CREDIT,
+        id: 4,
+        status: "draft",
+        lines: [line(1, "tr_2", -70)]
+      }
+    ]);
+    const ridesOnly = { ...INVOICE, lines: INVOICE.lines.slice(0, 2) };
+    mocks.findInvoice.mockResolvedValue(ridesOnly);
+
+    await expect(InvoiceService.cancelInvoice(1, "Storno")).rejects.toThrow(
+      "fully credited"
+    );
+    expect(mocks.issueInvoice).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+// notification.service.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  listPushSubscriptions: vi.fn()
+}));
+
+vi.mock("@getcronit/pylon", () => ({
+  getContext: () => ({ get: () => undefined }),
+  getEnv: () => ({
+    EMAIL_TRANSPORT: "fake",
+    VAPID_SUBJECT: "https://limosen.at",
+    VAPID_PRIVATE_KEY: "{}"
+  }),
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("@pushforge/builder", () => ({ buildPushHTTPRequest: vi.fn() }));
+vi.mock("../src/utils/authorization", () => ({
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/user.service", () => ({
+  UserService: {
+    listUsersByRole: async (role: string) =>
+      role === "dispatcher" ? [{ id: "disp1" }] : [],
+    getZitadelUserById: async (id: string) => ({
+      human: { email: { email: `${id}@example.com` } }
+    })
+  }
+}));
+vi.mock("../src/d1.service", () => ({
+  D1Service: {
+    listNotificationPreferences: async () => [],
+    createNotifications: async () => undefined,
+    enqueueDeferredNotification: async () => undefined,
+    listPushSubscriptions: mocks.listPushSubscriptions,
+    deletePushSubscriptions: async () => 0,
+    markPushSubscriptionsDelivered: async () => undefined
+  }
+}));
+
+import { NotificationService } from "../src/notification.service";
+import { FakeEmailTransport } from "../src/utils/emailTransport";
+
+const STATEMENT = {
+  title: "Ihre Abrechnung OKTOBER 2026",
+  body: "Ihre Abrechnung steht als PDF zum Download bereit.",
+  data: { url: "https://limosen.at/documents/x?expires=1&signature=s" }
+};
+
+function subscription(userId: string) {
+  return {
+    userId,
+    endpoint: `https://push.example.com/${userId}`,
+    p256dh: "p",
+    auth: "a",
+    expirationTime: null,
+    deviceId: null,
+    userAgent: null
+  };
+}
+
+describe("NotificationService channel fallback", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    FakeEmailTransport.sent = [];
+    mocks.listPushSubscriptions.mockResolvedValue([]);
+  });
+
+  it("emails a statement to a customer without push subscription", async () => {
+    const report = await NotificationService.sendNotificationToUser(
+      "c1",
+      STATEMENT,
+      undefined,
+      { category: "statement" }
+    );
+
+    expect(report.emailed).toBe(1);
+    expect(FakeEmailTransport.sent).toEqual([
+      expect.objectContaining({
+        to: "c1@example.com",
+        subject: STATEMENT.title,
+        text: expect.stringContaining(STATEMENT.data.url)
+      })
+    ]);
+  });
+
+  it("does not email when the push reached the customer", async () => {
+    mocks.listPushSubscriptions.mockResolvedValue([subscription("c1")]);
+    vi.spyOn(
+      NotificationService as any,
+      "sendPushToSubscriptions"
+    ).mockResolvedValue({
+      delivered: 1,
+      failed: 0,
+      pruned: 0,
+      results: [{ endpoint: "https://push.example.com/c1", status: "delivered" }]
+    });
+
+    const report = await NotificationService.sendNotificationToUser(
+      "c1",
+      STATEMENT,
+      undefined,
+      { category: "statement" }
+    );
+
+    expect(report.delivered).toBe(1);
+    expect(report.emailed).toBe(0);
+    expect(FakeEmailTransport.sent).toEqual([]);
+  });
+
+  it("falls back to email when the push fails", async () => {
+    mocks.listPushSubscriptions.mockResolvedValue([subscription("c1")]);
+    vi.spyOn(
+      NotificationService as any,
+      "sendPushToSubscriptions"
+    ).mockResolvedValue({
+      delivered: 0,
+      failed: 1,
+      pruned: 0,
+      results: [{ endpoint: "https://push.example.com/c1", status: "failed" }]
+    });
+
+    const report = await NotificationService.sendNotificationToUser(
+      "c1",
+      STATEMENT,
+      undefined,
+      { category: "statement" }
+    );
+
+    expect(report.emailed).toBe(1);
+    expect(FakeEmailTransport.sent).toHaveLength(1);
+  });
+
+  it("never emails categories outside booking and statement", async () => {
+    const report = await NotificationService.sendNotificationToUser(
+      "c1",
+      { title: "Test" },
+      undefined,
+      { category: "system" }
+    );
+
+    expect(report.emailed).toBe(0);
+    expect(FakeEmailTransport.sent).toEqual([]);
+  });
+});
+
+describe("NotificationService transfer events", () => {
+  const RIDE = {
+    transferId: "tr_1",
+    customerId: "c1",
+    customerName: "Hotel Sacher",
+    rideDateISO: "2026-10-20",
+    rideTime: "12:00",
+    pickup: "Hotel Sacher",
+    dropoff: "Flughafen Wien",
+    roomOrName: "",
+    driverId: "d1",
+    state: "canceled" as const,
+    requestedAtISO: "2026-10-18T10:00:00Z"
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Recipients (joined user ids) → title
+  async function recipientsOfCancel(actorId: string) {
+    const send = vi
+      .spyOn(NotificationService, "sendNotificationToUsers")
+      .mockResolvedValue({ delivered: 1, failed: 0 } as any);
+    await NotificationService.notifyTransferEvent("canceled", RIDE, actorId);
+    return Object.fromEntries(
+      send.mock.calls.map(([userIds, payload]) => [
+        userIds.join(","),
+        payload.title
+      ])
+    );
+  }
+
+  it("tells the customer when dispatch cancels their ride", async () => {
+    expect(await recipientsOfCancel("disp1")).toEqual({
+      c1: "Ihre Fahrt wurde storniert",
+      d1: "Fahrt storniert"
+    });
+  });
+
+  it("does not tell the customer about their own cancellation", async () => {
+    expect(await recipientsOfCancel("c1")).toEqual({
+      d1: "Fahrt storniert",
+      disp1: "Fahrt storniert"
+    });
+  });
+});
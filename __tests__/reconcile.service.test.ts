@@ -0,0 +1,140 @@
+// reconcile.service.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  listMasterSheetTransfers: vi.fn(),
+  findTransfers: vi.fn(),
+  updateD1Transfer: vi.fn(),
+  upsertD1Transfer: vi.fn(),
+  findVehicleByPlate: vi.fn()
+}));
+
+vi.mock("@getcronit/pylon", () => ({
+  getEnv: () => ({}),
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("../src/utils/authorization", () => ({
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/transfer.service", () => ({
+  TransferService: {
+    listMasterSheetTransfers: mocks.listMasterSheetTransfers,
+    findTransfers: mocks.findTransfers,
+    projectTransfer: vi.fn()
+  }
+}));
+vi.mock("../src/d1.service", () => ({
+  D1Service: {
+    updateD1Transfer: mocks.updateD1Transfer,
+    upsertD1Transfer: mocks.upsertD1Transfer,
+    findVehicleByPlate: mocks.findVehicleByPlate
+  }
+}));
+
+import { ReconcileService } from "../src/reconcile.service";
+import { parseSheetAmount } from "../src/utils/sheetsFormatting";
+
+const ROW = {
+  transferId: "tr_1",
+  customerId: "c1",
+  customerName: "Hotel Sacher",
+  rideDateISO: "2026-10-20",
+  rideTime: "12:00",
+  pickup: "Hotel Sacher",
+  dropoff: "Flughafen Wien",
+  roomOrName: "",
+  vehicle: "Limousine",
+  state: "confirmed",
+  requestedAtISO: "2026-10-18T10:00:00Z"
+};
+
+describe("ReconcileService vehicle cells", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findVehicleByPlate.mockImplementation(async (plate: string) =>
+      plate === "W-12345A"
+        ? { id: "v1", plate, name: null, vehicleClass: "van" }
+        : null
+    );
+  });
+
+  it("resolves a hand-edited vehicle to its fleet class and id", async () => {
+    mocks.listMasterSheetTransfers.mockResolvedValue([
+      { rowIdx: 2, row: { ...ROW, vehicle: "Van (w 12345a)" } }
+    ]);
+    mocks.findTransfers.mockResolvedValue([ROW]);
+
+    await ReconcileService.reconcileTransfers("sheetWins", false);
+
+    expect(mocks.findVehicleByPlate).toHaveBeenCalledWith("W-12345A");
+    expect(mocks.updateD1Transfer).toHaveBeenCalledWith(
+      "tr_1",
+      expect.objectContaining({
+        vehicle: "Van (w 12345a)",
+        vehicleClass: "van",
+        vehicleId: "v1"
+      }),
+      "reconciled",
+      undefined
+    );
+  });
+
+  it("creates sheet-only rows with the class of a display name", async () => {
+    mocks.listMasterSheetTransfers.mockResolvedValue([
+      { rowIdx: 2, row: { ...ROW, vehicle: "Kleinbus (W-99999Z)" } }
+    ]);
+    mocks.findTransfers.mockResolvedValue([]);
+
+    await ReconcileService.reconcileTransfers("sheetWins", false);
+
+    expect(mocks.upsertD1Transfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        vehicle: "Kleinbus (W-99999Z)",
+        vehicleClass: "minibus",
+        vehicleId: null
+      }),
+      "reconciled",
+      expect.anything()
+    );
+  });
+});
+
+describe("ReconcileService amounts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.findTransfers.mockResolvedValue([{ ...ROW, amountEUR: 45 }]);
+  });
+
+  it("matches a de-AT formatted amount with D1", async () => {
+    mocks.listMasterSheetTransfers.mockResolvedValue([
+      { rowIdx: 2, row: { ...ROW, amountEUR: parseSheetAmount("45,00 €") } }
+    ]);
+
+    const report = await ReconcileService.reconcileTransfers(undefined, true);
+
+    expect(report.differences).toEqual([]);
+  });
+
+  it("reports an amount that is no number instead of writing it", async () => {
+    mocks.listMasterSheetTransfers.mockResolvedValue([
+      { rowIdx: 2, row: { ...ROW, amountEUR: parseSheetAmount("45 Euro") } }
+    ]);
+
+    const report = await ReconcileService.reconcileTransfers(
+      "sheetWins",
+      false
+    );
+
+    expect(report.failed).toBe(1);
+    expect(report.differences).toEqual([
+      expect.objectContaining({
+        transferId: "tr_1",
+        fields: [{ field: "amountEUR", sheet: "NaN", d1: "45.00" }],
+        error: expect.stringContaining("not a number")
+      })
+    ]);
+    expect(mocks.updateD1Transfer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,22 @@
+// sheetsFormatting.test.ts
+import { describe, expect, it } from "vitest";
+import { parseSheetAmount } from "../src/utils/sheetsFormatting";
+
+describe("parseSheetAmount", () => {
+  it.each([
+    ["45", 45],
+    ["12,5", 12.5],
+    ["45,00 €", 45],
+    ["1.234,50 €", 1234.5],
+    ["1.500", 1500],
+    ["12.5", 12.5],
+    ["€1,234.50", 1234.5],
+    ["-8,40", -8.4]
+  ])("reads %s", (text, amount) => {
+    expect(parseSheetAmount(text)).toBe(amount);
+  });
+
+  it.each(["", "45 Euro", "n/a"])("rejects %j", (text) => {
+    expect(parseSheetAmount(text)).toBeNaN();
+  });
+});
@@ -0,0 +1,106 @@
+// suggestion.service.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  findTransfers: vi.fn(),
+  applyDriverAssignment: vi.fn(),
+  listUsersByRole: vi.fn(),
+  listTransferDeclines: vi.fn()
+}));
+
+vi.mock("@getcronit/pylon", () => ({
+  getEnv: () => ({}),
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("../src/utils/authorization", () => ({
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/transfer.service", () => ({
+  TransferService: {
+    findTransfers: mocks.findTransfers,
+    applyDriverAssignment: mocks.applyDriverAssignment
+  }
+}));
+vi.mock("../src/user.service", () => ({
+  UserService: { listUsersByRole: mocks.listUsersByRole }
+}));
+vi.mock("../src/schedule.service", () => ({
+  ScheduleService: { schedulesFor: async () => [] }
+}));
+vi.mock("../src/d1.service", () => ({
+  D1Service: {
+    listRideDurationEstimates: async () => [],
+    listTransferDeclines: mocks.listTransferDeclines
+  }
+}));
+
+import { SuggestionService } from "../src/suggestion.service";
+
+// 12:00 in Vienna, two hours after `now`
+const NOW = new Date("2026-10-19T08:00:00Z");
+const RIDE = {
+  transferId: "tr_1",
+  customerId: "c1",
+  rideDateISO: "2026-10-19",
+  rideTime: "12:00",
+  pickup: "Hotel Sacher",
+  dropoff: "Flughafen Wien",
+  roomOrName: "",
+  vehicle: "Van",
+  state: "confirmed",
+  requestedAtISO: "2026-10-18T10:00:00Z"
+};
+
+describe("SuggestionService.runAutoAssign", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findTransfers.mockResolvedValue([RIDE]);
+    mocks.applyDriverAssignment.mockResolvedValue(undefined);
+    mocks.listUsersByRole.mockResolvedValue([
+      { id: "d1", human: { profile: { displayName: "Anna" } } },
+      { id: "d2", human: { profile: { displayName: "Ben" } } }
+    ]);
+    mocks.listTransferDeclines.mockResolvedValue([]);
+  });
+
+  it("assigns the top ranked driver", async () => {
+    const results = await SuggestionService.runAutoAssign(12, 0, NOW);
+
+    expect(results).toEqual([
+      expect.objectContaining({ transferId: "tr_1", driverId: "d1" })
+    ]);
+  });
+
+  it("does not give a ride back to a driver who declined it", async () => {
+    mocks.listTransferDeclines.mockResolvedValue([
+      { transferId: "tr_1", actorId: "d1", reason: "declined: sick" }
+    ]);
+
+    const results = await SuggestionService.runAutoAssign(12, 0, NOW);
+
+    expect(mocks.listTransferDeclines).toHaveBeenCalledWith(["tr_1"]);
+    expect(results).toEqual([
+      expect.objectContaining({ transferId: "tr_1", driverId: "d2" })
+    ]);
+    expect(mocks.applyDriverAssignment).toHaveBeenCalledWith(
+      "tr_1",
+      "d2",
+      expect.anything()
+    );
+  });
+
+  it("leaves the ride unassigned if every driver declined it", async () => {
+    mocks.listTransferDeclines.mockResolvedValue([
+      { transferId: "tr_1", actorId: "d1", reason: "declined" },
+      { transferId: "tr_1", actorId: "d2", reason: "declined: no time" }
+    ]);
+
+    const results = await SuggestionService.runAutoAssign(12, 0, NOW);
+
+    expect(results).toEqual([
+      { transferId: "tr_1", driverId: null, score: null }
+    ]);
+    expect(mocks.applyDriverAssignment).not.toHaveBeenCalled();
+  });
+});
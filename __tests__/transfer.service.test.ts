@@ -0,0 +1,123 @@
+// transfer.service.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  userId: "disp1",
+  findD1Transfer: vi.fn(),
+  updateD1Transfer: vi.fn(),
+  hasPermission: vi.fn()
+}));
+
+vi.mock("@getcronit/pylon", () => ({
+  getContext: () => ({
+    executionCtx: { waitUntil: () => {} },
+    get: () => ({ sub: mocks.userId })
+  }),
+  getEnv: () => ({}),
+  requireAuth: () => () => {},
+  ServiceError: class extends Error {}
+}));
+vi.mock("../src/utils/authorization", () => ({
+  currentUserId: () => mocks.userId,
+  hasPermission: mocks.hasPermission,
+  requirePermission: () => () => {}
+}));
+vi.mock("../src/user.service", () => ({ UserService: {} }));
+vi.mock("../src/notification.service", () => ({
+  NotificationService: { notifyTransferEvent: async () => undefined }
+}));
+vi.mock("../src/dispatch.service", () => ({ DispatchService: {} }));
+vi.mock("../src/schedule.service", () => ({ ScheduleService: {} }));
+vi.mock("../src/pricing.service", () => ({ PricingService: {} }));
+vi.mock("../src/billing.service", () => ({ BillingService: {} }));
+vi.mock("../src/d1.service", () => ({
+  D1Service: {
+    findD1Transfer: mocks.findD1Transfer,
+    updateD1Transfer: mocks.updateD1Transfer
+  }
+}));
+
+import { TransferService } from "../src/transfer.service";
+
+function transfer(state: string) {
+  return {
+    transferId: "tr_1",
+    customerId: "c1",
+    customerName: "Hotel Sacher",
+    rideDateISO: "2026-10-20",
+    rideTime: "12:00",
+    pickup: "Hotel Sacher",
+    dropoff: "Flughafen Wien",
+    roomOrName: null,
+    vehicle: null,
+    amountEUR: 45,
+    payment: null,
+    driverId: null,
+    driverName: null,
+    state,
+    requestedAtISO: new Date("2026-10-18T10:00:00Z"),
+    updatedAt: new Date("2026-10-18T10:00:00Z")
+  };
+}
+
+describe("TransferService state changes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.userId = "disp1";
+    mocks.hasPermission.mockResolvedValue(true);
+    mocks.updateD1Transfer.mockResolvedValue(undefined);
+    vi.spyOn(TransferService, "runSheetsOutbox").mockResolvedValue({
+      projected: 0,
+      failed: 0,
+      deadLettered: 0
+    } as any);
+  });
+
+  it.each([
+    ["markConfirmed", "pending", "confirmed"],
+    ["markCompleted", "confirmed", "complete"],
+    ["terminateTransfer", "canceled", "terminated"],
+    ["cancelTransfer", "pending", "canceled"]
+  ] as const)("%s writes %s → %s to the history", async (method, from, to) => {
+    mocks.findD1Transfer.mockResolvedValue(transfer(from));
+
+    await TransferService[method]("tr_1", "Kunde hat angerufen");
+
+    expect(mocks.updateD1Transfer).toHaveBeenCalledWith(
+      "tr_1",
+      { state: to },
+      "stateChanged",
+      {
+        fromState: from,
+        toState: to,
+        actorId: "disp1",
+        reason: "Kunde hat angerufen"
+      }
+    );
+  });
+
+  it.each([
+    ["markConfirmed", "confirmed"],
+    ["markCompleted", "canceled"],
+    ["terminateTransfer", "complete"],
+    ["cancelTransfer", "confirmed"]
+  ] as const)("%s refuses a %s transfer", async (method, from) => {
+    mocks.findD1Transfer.mockResolvedValue(transfer(from));
+
+    await expect(TransferService[method]("tr_1")).rejects.toThrow(
+      `Transfer cannot change from '${from}'`
+    );
+    expect(mocks.updateD1Transfer).not.toHaveBeenCalled();
+  });
+
+  it("lets customers cancel only their own rides", async () => {
+    mocks.userId = "c2";
+    mocks.hasPermission.mockResolvedValue(false);
+    mocks.findD1Transfer.mockResolvedValue(transfer("pending"));
+
+    await expect(TransferService.cancelTransfer("tr_1")).rejects.toThrow(
+      "Only the customer or dispatch can cancel"
+    );
+    expect(mocks.updateD1Transfer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+// transferStateMachine.test.ts
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@getcronit/pylon", () => ({
+  ServiceError: class extends Error {}
+}));
+
+import type { RideProgress, TransferState } from "../src/d1.service";
+import {
+  assertProgress,
+  assertTransition,
+  canTransition,
+  isFinalState
+} from "../src/utils/transferStateMachine";
+
+const STATES: TransferState[] = [
+  "pending",
+  "confirmed",
+  "canceled",
+  "complete",
+  "terminated"
+];
+
+const ALLOWED: [TransferState, TransferState][] = [
+  ["pending", "confirmed"],
+  ["pending", "canceled"],
+  ["pending", "terminated"],
+  ["pending", "complete"],
+  ["confirmed", "terminated"],
+  ["confirmed", "complete"],
+  ["canceled", "terminated"]
+];
+
+const REFUSED = STATES.flatMap((from) =>
+  STATES.filter(
+    (to) => !ALLOWED.some(([f, t]) => f === from && t === to)
+  ).map((to) => [from, to] as [TransferState, TransferState])
+);
+
+describe("transfer state transitions", () => {
+  it.each(ALLOWED)("allows %s → %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+    expect(() => assertTransition(from, to)).not.toThrow();
+  });
+
+  it.each(REFUSED)("refuses %s → %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+    expect(() => assertTransition(from, to)).toThrow(
+      `Transfer cannot change from '${from}' to '${to}'.`
+    );
+  });
+
+  it.each([
+    ["complete", true],
+    ["terminated", true],
+    ["pending", false],
+    ["confirmed", false],
+    ["canceled", false]
+  ] as [TransferState, boolean][])("%s is final: %s", (state, final) => {
+    expect(isFinalState(state)).toBe(final);
+  });
+});
+
+describe("driver progress", () => {
+  it.each([
+    ["pending", "assigned", "accepted"],
+    ["confirmed", "accepted", "enRoute"],
+    ["confirmed", "enRoute", "atPickup"],
+    ["confirmed", "atPickup", "finished"]
+  ] as [TransferState, RideProgress, RideProgress][])(
+    "allows %s: %s → %s",
+    (state, from, to) => {
+      expect(() => assertProgress(state, from, to)).not.toThrow();
+    }
+  );
+
+  it.each([
+    ["confirmed", null, "accepted"],
+    ["confirmed", "assigned", "enRoute"],
+    ["confirmed", "finished", "accepted"],
+    ["canceled", "accepted", "enRoute"],
+    ["complete", "atPickup", "finished"]
+  ] as [TransferState, RideProgress | null, RideProgress][])(
+    "refuses %s: %s → %s",
+    (state, from, to) => {
+      expect(() => assertProgress(state, from, to)).toThrow(
+        "Transfer cannot change"
+      );
+    }
+  );
+});
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TransferOutbox" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "transferId" TEXT NOT NULL,
+    "change" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "TransferOutbox_status_nextAttemptAt_idx" ON "TransferOutbox"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "TransferOutbox_transferId_idx" ON "TransferOutbox"("transferId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN "rideProgress" TEXT;
+
+-- AlterTable
+ALTER TABLE "TransferStateChange" ADD COLUMN "fromProgress" TEXT;
+ALTER TABLE "TransferStateChange" ADD COLUMN "toProgress" TEXT;
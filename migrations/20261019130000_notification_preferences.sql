@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "userId" TEXT NOT NULL PRIMARY KEY,
+    "mutedCategories" TEXT NOT NULL DEFAULT '[]',
+    "mutedDeviceIds" TEXT NOT NULL DEFAULT '[]',
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'Europe/Vienna',
+    "language" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "DeferredNotification" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "deliverAfter" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "DeferredNotification_deliverAfter_idx" ON "DeferredNotification"("deliverAfter");
+
+-- CreateIndex
+CREATE INDEX "DeferredNotification_userId_idx" ON "DeferredNotification"("userId");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "RideDurationEstimate" (
+    "pickup" TEXT NOT NULL,
+    "dropoff" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("pickup", "dropoff")
+);
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "DriverShift" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "driverId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "validFrom" TEXT,
+    "validUntil" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "DriverAbsence" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "driverId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "startDateISO" TEXT NOT NULL,
+    "endDateISO" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "DriverShift_driverId_idx" ON "DriverShift"("driverId");
+
+-- CreateIndex
+CREATE INDEX "DriverAbsence_driverId_idx" ON "DriverAbsence"("driverId");
+
+-- CreateIndex
+CREATE INDEX "DriverAbsence_startDateISO_idx" ON "DriverAbsence"("startDateISO");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN "quotedEUR" REAL;
+
+-- CreateTable
+CREATE TABLE "TariffZone" (
+    "place" TEXT NOT NULL PRIMARY KEY,
+    "zone" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Tariff" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "fromZone" TEXT NOT NULL,
+    "toZone" TEXT NOT NULL,
+    "priceEUR" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "TariffZone_zone_idx" ON "TariffZone"("zone");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tariff_fromZone_toZone_key" ON "Tariff"("fromZone", "toZone");
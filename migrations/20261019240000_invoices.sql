@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "kind" TEXT NOT NULL DEFAULT 'invoice',
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "number" TEXT,
+    "customerId" TEXT NOT NULL,
+    "customerName" TEXT,
+    "periodFrom" TEXT NOT NULL,
+    "periodUntil" TEXT NOT NULL,
+    "correctsInvoiceId" INTEGER,
+    "transportVatPercent" REAL NOT NULL,
+    "extrasVatPercent" REAL NOT NULL,
+    "earlyPaymentDiscountPercent" REAL NOT NULL,
+    "voucherPayment" TEXT NOT NULL,
+    "sumEUR" REAL NOT NULL DEFAULT 0,
+    "voucherEUR" REAL NOT NULL DEFAULT 0,
+    "netEUR" REAL NOT NULL DEFAULT 0,
+    "vatEUR" REAL NOT NULL DEFAULT 0,
+    "grossEUR" REAL NOT NULL DEFAULT 0,
+    "discountedGrossEUR" REAL NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "issueDateISO" TEXT,
+    "issuedAt" DATETIME,
+    "issuedBy" TEXT,
+    "canceledAt" DATETIME,
+    "canceledBy" TEXT,
+    "cancelReason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceLine" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "invoiceId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "transferId" TEXT,
+    "rideDateISO" TEXT,
+    "description" TEXT NOT NULL,
+    "amountEUR" REAL NOT NULL,
+    "vatPercent" REAL NOT NULL,
+    "voucher" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceNumberSequence" (
+    "year" INTEGER NOT NULL PRIMARY KEY,
+    "last" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_number_key" ON "Invoice"("number");
+
+-- CreateIndex
+CREATE INDEX "Invoice_customerId_idx" ON "Invoice"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_status_idx" ON "Invoice"("status");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_invoiceId_idx" ON "InvoiceLine"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_transferId_idx" ON "InvoiceLine"("transferId");
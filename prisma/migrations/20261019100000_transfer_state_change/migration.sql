@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "TransferStateChange" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "transferId" TEXT NOT NULL,
+    "fromState" TEXT,
+    "toState" TEXT NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "TransferStateChange_transferId_createdAt_idx" ON "TransferStateChange"("transferId", "createdAt");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "PushSubscription" (
+    "endpoint" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "p256dh" TEXT,
+    "auth" TEXT,
+    "expirationTime" DATETIME,
+    "deviceId" TEXT,
+    "userAgent" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "lastSuccessAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "PushSubscription_userId_idx" ON "PushSubscription"("userId");
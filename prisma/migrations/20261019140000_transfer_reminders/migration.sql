@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "TransferReminder" (
+    "transferId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sentAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("transferId", "kind")
+);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "NotificationPreference" ADD COLUMN "channels" TEXT NOT NULL DEFAULT '["push","email"]';
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Vehicle" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "plate" TEXT NOT NULL,
+    "name" TEXT,
+    "vehicleClass" TEXT NOT NULL,
+    "seats" INTEGER NOT NULL,
+    "luggage" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Vehicle_plate_key" ON "Vehicle"("plate");
+
+-- CreateIndex
+CREATE INDEX "Vehicle_vehicleClass_idx" ON "Vehicle"("vehicleClass");
+
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN "vehicleClass" TEXT;
+ALTER TABLE "Transfer" ADD COLUMN "vehicleId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transfer_vehicleId_idx" ON "Transfer"("vehicleId");
+
+-- Legacy free-text "Wagen" values → vehicle class (see utils/vehicleClasses.ts).
+-- The text itself is kept, the sheets still show it; unknown values stay NULL.
+UPDATE "Transfer" SET "vehicleClass" = CASE LOWER(TRIM("vehicle"))
+    WHEN 'limousine' THEN 'limousine'
+    WHEN 'limo' THEN 'limousine'
+    WHEN 'pkw' THEN 'limousine'
+    WHEN 'sedan' THEN 'limousine'
+    WHEN 'e-klasse' THEN 'limousine'
+    WHEN 's-klasse' THEN 'limousine'
+    WHEN 'van' THEN 'van'
+    WHEN 'minivan' THEN 'van'
+    WHEN 'v-klasse' THEN 'van'
+    WHEN 'kleinbus' THEN 'minibus'
+    WHEN 'minibus' THEN 'minibus'
+    WHEN 'bus' THEN 'minibus'
+    WHEN 'sprinter' THEN 'minibus'
+  END
+WHERE "vehicle" IS NOT NULL AND TRIM("vehicle") <> '';
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "RateCard" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "customerId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "validFrom" TEXT NOT NULL,
+    "validUntil" TEXT,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "RateCardLine" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "rateCardId" INTEGER NOT NULL,
+    "pickup" TEXT NOT NULL,
+    "dropoff" TEXT NOT NULL,
+    "vehicleClass" TEXT,
+    "priceEUR" REAL NOT NULL,
+    CONSTRAINT "RateCardLine_rateCardId_fkey" FOREIGN KEY ("rateCardId") REFERENCES "RateCard" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RateCard_customerId_version_key" ON "RateCard"("customerId", "version");
+
+-- CreateIndex
+CREATE INDEX "RateCard_customerId_idx" ON "RateCard"("customerId");
+
+-- CreateIndex
+CREATE INDEX "RateCardLine_rateCardId_idx" ON "RateCardLine"("rateCardId");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "BillingRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "customerId" TEXT,
+    "effectiveFrom" TEXT NOT NULL,
+    "transportVatPercent" REAL,
+    "extrasVatPercent" REAL,
+    "earlyPaymentDiscountPercent" REAL,
+    "voucherPayment" TEXT,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "BillingRule_customerId_effectiveFrom_idx" ON "BillingRule"("customerId", "effectiveFrom");
+
+-- Defaults that were hard-coded in the monthly sheet totals
+INSERT INTO "BillingRule" ("customerId", "effectiveFrom", "transportVatPercent", "extrasVatPercent", "earlyPaymentDiscountPercent", "voucherPayment", "note")
+VALUES (NULL, '2000-01-01', 10, 20, 4, 'Gutschein', 'initial defaults');
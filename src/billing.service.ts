@@ -0,0 +1,127 @@
+// src/billing.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { InvalidInputError, NotFoundError } from "./errors/general.errors";
+import { currentUserId, requirePermission } from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import {
+  BillingRules,
+  resolveBillingRules
+} from "./utils/billingRules";
+
+export type BillingRuleInput = {
+  customerId?: string; // unset = default for everybody
+  effectiveFrom: string; // YYYY-MM-DD
+  transportVatPercent?: number;
+  extrasVatPercent?: number;
+  earlyPaymentDiscountPercent?: number;
+  voucherPayment?: string;
+  note?: string;
+};
+
+const DATE_ISO = /^\d{4}-\d{2}-\d{2}$/;
+const PERCENT_FIELDS = [
+  "transportVatPercent",
+  "extrasVatPercent",
+  "earlyPaymentDiscountPercent"
+] as const;
+
+function todayISO(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export class BillingService {
+  /**
+   * Default rules plus the rules of `customerId`, or every rule.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async getBillingRules(customerId?: string) {
+    return D1Service.listBillingRules(customerId);
+  }
+
+  /**
+   * Rules a statement or invoice of `customerId` dated `dateISO` (default
+   * today) uses.
+   */
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async effectiveBillingRules(
+    customerId?: string,
+    dateISO?: string
+  ): Promise<BillingRules> {
+    if (dateISO !== undefined && !DATE_ISO.test(dateISO)) {
+      throw new InvalidInputError("dateISO must be YYYY-MM-DD");
+    }
+    return BillingService.rulesFor(customerId ?? null, dateISO ?? todayISO());
+  }
+
+  /**
+   * Rules apply from `effectiveFrom` on and only change the fields they
+   * set, e.g. a hotel without early-payment discount:
+   * `{ customerId, effectiveFrom, earlyPaymentDiscountPercent: 0 }`.
+   * Not back-dated, so issued statements keep their rates.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async addBillingRule(input: BillingRuleInput) {
+    if (!DATE_ISO.test(input.effectiveFrom)) {
+      throw new InvalidInputError("effectiveFrom must be YYYY-MM-DD");
+    }
+    if (input.effectiveFrom < todayISO()) {
+      throw new InvalidInputError("effectiveFrom must not be in the past");
+    }
+    for (const field of PERCENT_FIELDS) {
+      const value = input[field];
+      if (value !== undefined && !(value >= 0 && value <= 100)) {
+        throw new InvalidInputError(`${field} must be between 0 and 100`);
+      }
+    }
+    const voucherPayment = input.voucherPayment?.trim();
+    if (input.voucherPayment !== undefined && !voucherPayment) {
+      throw new InvalidInputError("voucherPayment must not be empty");
+    }
+    if (
+      PERCENT_FIELDS.every((f) => input[f] === undefined) &&
+      voucherPayment === undefined
+    ) {
+      throw new InvalidInputError("A billing rule must set at least one value");
+    }
+
+    return D1Service.createBillingRule({
+      customerId: input.customerId || null,
+      effectiveFrom: input.effectiveFrom,
+      transportVatPercent: input.transportVatPercent ?? null,
+      extrasVatPercent: input.extrasVatPercent ?? null,
+      earlyPaymentDiscountPercent: input.earlyPaymentDiscountPercent ?? null,
+      voucherPayment: voucherPayment ?? null,
+      note: input.note?.trim() || null,
+      createdBy: currentUserId()
+    });
+  }
+
+  /**
+   * Only rules that are not in force yet; past statements must keep
+   * their rates, so later changes need a new rule instead.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async removeBillingRule(ruleId: number) {
+    const rule = await D1Service.findBillingRule(ruleId);
+    if (!rule) throw new NotFoundError(`Billing rule ${ruleId} not found`);
+    if (rule.effectiveFrom <= todayISO()) {
+      throw new InvalidInputError(
+        "Rules already in force can't be removed, add a new rule instead"
+      );
+    }
+    await D1Service.deleteBillingRule(ruleId);
+    return true;
+  }
+
+  static async rulesFor(
+    customerId: string | null,
+    dateISO: string
+  ): Promise<BillingRules> {
+    const rows = await D1Service.listBillingRules(customerId ?? undefined);
+    return resolveBillingRules(rows, customerId, dateISO);
+  }
+}
@@ -0,0 +1,233 @@
+// src/broadcast.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { InvalidInputError, NotFoundError } from "./errors/general.errors";
+import { currentUserId, requirePermission } from "./utils/authorization";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { D1Service } from "./d1.service";
+import { NotificationService } from "./notification.service";
+import { UserService } from "./user.service";
+
+/**
+ * Per recipient:
+ * - delivered: at least one device got the push
+ * - emailed:   reached by email instead
+ * - muted:     the user muted announcements
+ * - deferred:  queued until the user's quiet hours end
+ * - unreached: no working channel
+ * - failed:    sending threw
+ */
+export type BroadcastDeliveryStatus =
+  | "delivered"
+  | "emailed"
+  | "muted"
+  | "deferred"
+  | "unreached"
+  | "failed";
+
+// Exactly one of roleKey / userIds
+export interface BroadcastTarget {
+  roleKey?: string;
+  userIds?: string[];
+}
+
+export interface BroadcastPayload {
+  title: string;
+  body?: string;
+  url?: string;
+  // Ignore quiet hours (e.g. weather warnings for drivers on the road)
+  urgent?: boolean;
+}
+
+// Recipients notified in parallel
+const BROADCAST_CONCURRENCY = 5;
+// Upper bound for role lookups (ZITADEL user search limit)
+const BROADCAST_MAX_ROLE_USERS = 1000;
+
+export class BroadcastService {
+  /**
+   * Notify everybody with a role, or a list of users, under the
+   * "announcement" category. With `scheduledForISO` in the future the
+   * broadcast is stored and sent by cron; otherwise it is sent right away
+   * and returned with its totals (or left to cron, if the recipients can't
+   * be resolved now).
+   */
+  @requireAuth()
+  @requirePermission("notifications:broadcast")
+  static async broadcastNotification(
+    target: BroadcastTarget,
+    payload: BroadcastPayload,
+    scheduledForISO?: string
+  ) {
+    const roleKey = target.roleKey?.trim() || null;
+    const userIds = target.userIds?.length
+      ? [...new Set(target.userIds.map((id) => id.trim()).filter(Boolean))]
+      : null;
+    if (!!roleKey === !!userIds?.length) {
+      throw new InvalidInputError("Provide either roleKey or userIds");
+    }
+    if (!payload.title?.trim()) {
+      throw new InvalidInputError("title is required");
+    }
+
+    const now = new Date();
+    const scheduledFor = scheduledForISO ? new Date(scheduledForISO) : now;
+    if (Number.isNaN(scheduledFor.getTime())) {
+      throw new InvalidInputError("scheduledForISO must be an ISO date");
+    }
+    const later = scheduledFor > now;
+
+    const broadcast = await D1Service.createBroadcast({
+      createdBy: currentUserId()!,
+      roleKey,
+      userIds,
+      title: payload.title.trim(),
+      body: payload.body ?? null,
+      url: payload.url ?? null,
+      urgent: !!payload.urgent,
+      status: later ? "scheduled" : "sending",
+      scheduledFor
+    });
+
+    if (later) return broadcast;
+    try {
+      return await BroadcastService.send(broadcast);
+    } catch (e) {
+      // Back to scheduled by send(); failing here would only make the
+      // client retry and the recipients get it twice
+      console.error("Broadcast left to cron", broadcast.id, e);
+      return { ...broadcast, status: "scheduled" };
+    }
+  }
+
+  @requireAuth()
+  @requirePermission("notifications:broadcast")
+  static async cancelBroadcast(id: number) {
+    const broadcast = await D1Service.getBroadcast(id);
+    if (!broadcast) {
+      throw new NotFoundError(`Broadcast ${id} not found`);
+    }
+    if (!(await D1Service.cancelBroadcast(id))) {
+      throw new InvalidInputError(
+        `Broadcast ${id} is ${broadcast.status} and can no longer be canceled`
+      );
+    }
+    return D1Service.getBroadcast(id);
+  }
+
+  @requireAuth()
+  @requirePermission("notifications:broadcast")
+  static async getBroadcasts(args?: {
+    status?: "scheduled" | "sending" | "sent" | "canceled";
+    take?: number;
+    skip?: number;
+  }) {
+    return D1Service.listBroadcasts(args);
+  }
+
+  @requireAuth()
+  @requirePermission("notifications:broadcast")
+  static async getBroadcastDeliveries(broadcastId: number) {
+    return D1Service.listBroadcastDeliveries(broadcastId);
+  }
+
+  /**
+   * Cron: send scheduled broadcasts that are due. Broadcasts whose
+   * recipients can't be resolved stay scheduled for the next run.
+   */
+  static async runScheduledBroadcasts(): Promise<{ sent: number }> {
+    const due = await D1Service.claimDueBroadcasts();
+    let sent = 0;
+    for (const broadcast of due) {
+      try {
+        await BroadcastService.send(broadcast);
+        sent++;
+      } catch (e) {
+        console.error("Broadcast not sent, will retry", broadcast.id, e);
+      }
+    }
+    return { sent };
+  }
+
+  private static async send(broadcast: {
+    id: number;
+    roleKey: string | null;
+    userIds: string | null;
+    title: string;
+    body: string | null;
+    url: string | null;
+    urgent: boolean;
+  }) {
+    // Without recipients (e.g. ZITADEL down) the broadcast goes back to
+    // scheduled instead of being recorded as sent to nobody
+    let recipients: string[];
+    try {
+      recipients = await BroadcastService.recipientsOf(broadcast);
+    } catch (e) {
+      await D1Service.releaseBroadcast(broadcast.id);
+      throw e;
+    }
+
+    const deliveries = await mapWithConcurrency(
+      recipients,
+      BROADCAST_CONCURRENCY,
+      async (userId) => {
+        try {
+          const report = await NotificationService.sendNotificationToUser(
+            userId,
+            {
+              title: broadcast.title,
+              body: broadcast.body ?? undefined,
+              data: {
+                type: "broadcast",
+                broadcastId: broadcast.id,
+                url: broadcast.url ?? undefined
+              }
+            },
+            undefined,
+            { category: "announcement", urgent: broadcast.urgent }
+          );
+
+          const status: BroadcastDeliveryStatus = report.delivered
+            ? "delivered"
+            : report.emailed
+            ? "emailed"
+            : report.muted
+            ? "muted"
+            : report.deferred
+            ? "deferred"
+            : "unreached";
+          return {
+            userId,
+            status,
+            delivered: report.delivered + report.emailed,
+            failed: report.failed
+          };
+        } catch (e) {
+          return {
+            userId,
+            status: "failed" as BroadcastDeliveryStatus,
+            delivered: 0,
+            failed: 1,
+            error: e instanceof Error ? e.message : String(e)
+          };
+        }
+      }
+    );
+
+    return D1Service.finishBroadcast(broadcast.id, deliveries);
+  }
+
+  private static async recipientsOf(broadcast: {
+    roleKey: string | null;
+    userIds: string | null;
+  }): Promise<string[]> {
+    if (broadcast.roleKey) {
+      const users = await UserService.listUsersByRole(
+        broadcast.roleKey,
+        BROADCAST_MAX_ROLE_USERS
+      );
+      return [...new Set(users.map((u) => u.id))];
+    }
+    return JSON.parse(broadcast.userIds ?? "[]");
+  }
+}
@@ -2,8 +2,11 @@
 import { getEnv, requireAuth } from "@getcronit/pylon";
 import type { D1Database } from "@cloudflare/workers-types";
 import { InvalidInputError } from "./errors/general.errors";
+import { TransferConflictError } from "./errors/transfer.errors";
 import { getPrisma } from "./prisma";
+import { requirePermission } from "./utils/authorization";
 import type { Prisma } from "@prisma/client";
+import type { VehicleClass } from "./utils/vehicleClasses";
 
 // Local TransferState type (avoid importing from @prisma/client)
 export type TransferState =
@@ -13,6 +16,14 @@ export type TransferState =
   | "canceled"
   | "terminated";
 
+// Driver sub-state while a transfer is pending / confirmed
+export type RideProgress =
+  | "assigned"
+  | "accepted"
+  | "enRoute"
+  | "atPickup"
+  | "finished";
+
 /**
  * Input shape for creating/upserting a transfer in D1 via Prisma.
  * Mirrors your TransferInput/TransferRow fields.
@@ -25,7 +36,10 @@ export type D1TransferInput = {
   dropoff: string;
   roomOrName?: string;
   vehicle?: string;
+  vehicleClass?: VehicleClass | null;
+  vehicleId?: string | null;
   amountEUR?: number | null;
+  quotedEUR?: number | null;
   payment?: string | null;
 
   customerId: string;
@@ -38,6 +52,129 @@ export type D1TransferInput = {
   requestedAtISO: string;       // ISO string
 };
 
+/**
+ * Kind of transfer write recorded in the Sheets outbox.
+ */
+export type TransferChange =
+  | "created"
+  | "driverAssigned"
+  | "priceAssigned"
+  | "vehicleAssigned"
+  | "stateChanged"
+  | "rideProgress"
+  | "reconciled";
+
+export type D1TransferPatch = Partial<{
+  rideDateISO: string;
+  rideTime: string;
+  pickup: string;
+  dropoff: string;
+  roomOrName: string | null;
+  vehicle: string | null;
+  vehicleClass: VehicleClass | null;
+  vehicleId: string | null;
+  amountEUR: number | null;
+  quotedEUR: number | null;
+  payment: string | null;
+
+  customerId: string;
+  customerName: string | null;
+
+  driverId: string | null;
+  driverName: string | null;
+
+  state: TransferState;
+  rideProgress: RideProgress | null;
+  requestedAtISO: string;
+}>;
+
+export type D1TransferFilter = {
+  state?: TransferState;
+  customerId?: string;
+  driverId?: string;
+  fromDateISO?: string; // YYYY-MM-DD inclusive
+  toDateISO?: string; // YYYY-MM-DD inclusive
+  take?: number;
+  skip?: number;
+};
+
+/**
+ * History entry written together with a state-changing transfer write.
+ */
+export type D1StateChangeInput = {
+  fromState: TransferState | null;
+  toState: TransferState;
+  // Only for driver progress changes (guarded like fromState)
+  fromProgress?: RideProgress | null;
+  toProgress?: RideProgress | null;
+  // The write only applies while this driver is still assigned
+  expectedDriverId?: string;
+  actorId?: string | null;
+  reason?: string | null;
+};
+
+export type D1InvoiceStatus = "draft" | "issued" | "canceled";
+
+/**
+ * Rules snapshot and totals of an invoice, rewritten with its lines.
+ */
+export type D1InvoiceHeader = {
+  transportVatPercent: number;
+  extrasVatPercent: number;
+  earlyPaymentDiscountPercent: number;
+  voucherPayment: string;
+  sumEUR: number;
+  voucherEUR: number;
+  netEUR: number;
+  vatEUR: number;
+  grossEUR: number;
+  discountedGrossEUR: number;
+  note?: string | null;
+};
+
+const INVOICE_HEADER_COLUMNS: (keyof D1InvoiceHeader)[] = [
+  "transportVatPercent",
+  "extrasVatPercent",
+  "earlyPaymentDiscountPercent",
+  "voucherPayment",
+  "sumEUR",
+  "voucherEUR",
+  "netEUR",
+  "vatEUR",
+  "grossEUR",
+  "discountedGrossEUR",
+  "note"
+];
+
+export type D1InvoiceLineInput = {
+  position: number;
+  kind: "transport" | "extra";
+  transferId?: string | null;
+  rideDateISO?: string | null;
+  description: string;
+  amountEUR: number;
+  vatPercent: number;
+  voucher: boolean;
+};
+
+/**
+ * Web push subscription row (keys split into columns).
+ */
+export type D1PushSubscriptionInput = {
+  endpoint: string;
+  userId: string;
+  p256dh?: string | null;
+  auth?: string | null;
+  expirationTime?: number | null; // epoch ms, as sent by the browser
+  deviceId?: string | null;
+  userAgent?: string | null;
+};
+
+// Outbox retry policy
+const OUTBOX_MAX_ATTEMPTS = 8;
+const OUTBOX_BASE_BACKOFF_MS = 30_000;
+const OUTBOX_MAX_BACKOFF_MS = 60 * 60_000;
+
 export class D1Service {
   // ---------- helpers ----------
   private static env() {
@@ -52,6 +189,22 @@ export class D1Service {
     return getPrisma(env);
   }
 
+  private static db() {
+    const env = D1Service.env();
+    if (!env?.DB) {
+      throw new InvalidInputError('D1 binding "DB" fehlt in env');
+    }
+    return env.DB;
+  }
+
+  // Same DateTime encoding the Prisma D1 adapter uses, so raw writes stay readable
+  private static toD1Value(value: unknown) {
+    if (value === undefined) return null;
+    if (value instanceof Date) return value.toISOString().replace("Z", "+00:00");
+    if (typeof value === "boolean") return value ? 1 : 0;
+    return value;
+  }
+
   private static assertNonEmptyString(value: unknown, label: string) {
     if (typeof value !== "string" || value.trim().length === 0) {
       throw new InvalidInputError(`${label} is required`);
@@ -63,7 +216,17 @@ export class D1Service {
   // --------------------------------------------------
 
   @requireAuth()
+  @requirePermission("transfers:read")
   static async getD1Transfer(transferId: string) {
+    return D1Service.findD1Transfer(transferId);
+  }
+
+  /**
+   * Load a single transfer from D1 (null if missing).
+   * Used by TransferService, which treats D1 as the system of record.
+   */
+  static async findD1Transfer(transferId: string) {
+    // NOTE: no decorator here, same reasoning as upsertD1Transfer.
     D1Service.assertNonEmptyString(transferId, "transferId");
     const prisma = D1Service.prisma();
     return prisma.transfer.findUnique({
@@ -71,20 +234,18 @@ export class D1Service {
     });
   }
 
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async getD1AllTransfers(args?: D1TransferFilter) {
+    return D1Service.findD1AllTransfers(args);
+  }
+
   /**
    * Fetch all transfers from D1.
    * Sorted like your sheets: by rideDateISO then rideTime.
    */
-  //@requireAuth()
-  static async getD1AllTransfers(args?: {
-    state?: TransferState;
-    customerId?: string;
-    driverId?: string;
-    fromDateISO?: string; // YYYY-MM-DD inclusive
-    toDateISO?: string;   // YYYY-MM-DD inclusive
-    take?: number;
-    skip?: number;
-  }) {
+  static async findD1AllTransfers(args?: D1TransferFilter) {
+    // NOTE: no decorator here, same reasoning as findD1Transfer.
     const prisma = D1Service.prisma();
 
     const where: Prisma.TransferWhereInput = {};
@@ -119,6 +280,7 @@ export class D1Service {
    * Mostly for direct GraphQL usage.
    */
   @requireAuth()
+  @requirePermission("transfers:create")
   static async createD1Transfer(data: D1TransferInput) {
     D1Service.assertNonEmptyString(data.rideDateISO, "rideDateISO");
     D1Service.assertNonEmptyString(data.rideTime, "rideTime");
@@ -139,7 +301,10 @@ export class D1Service {
         dropoff: data.dropoff,
         roomOrName: data.roomOrName ?? null,
         vehicle: data.vehicle ?? null,
+        vehicleClass: data.vehicleClass ?? null,
+        vehicleId: data.vehicleId ?? null,
         amountEUR: typeof data.amountEUR === "number" ? data.amountEUR : null,
+        quotedEUR: typeof data.quotedEUR === "number" ? data.quotedEUR : null,
         payment: data.payment ?? null,
 
         customerId: data.customerId,
@@ -161,13 +326,30 @@ export class D1Service {
    * Upsert a full transfer row into D1.
    * Used by TransferService to keep D1 in sync with Sheets.
    */
-  static async upsertD1Transfer(data: D1TransferInput) {
+  static async upsertD1Transfer(
+    data: D1TransferInput,
+    change?: TransferChange,
+    stateChange?: D1StateChangeInput
+  ) {
     // NOTE: no decorator here so we can call it from
     // non-decorated TransferService methods without changing auth behavior.
     D1Service.assertNonEmptyString(data.transferId, "transferId");
 
     const prisma = D1Service.prisma();
 
+    if (change) {
+      await D1Service.batchWithOutbox(
+        D1Service.upsertStatement(data),
+        data.transferId,
+        change,
+        data,
+        stateChange
+      );
+      return prisma.transfer.findUniqueOrThrow({
+        where: { transferId: data.transferId }
+      });
+    }
+
     const createData: Prisma.TransferCreateInput = {
       transferId: data.transferId,
 
@@ -177,7 +359,10 @@ export class D1Service {
       dropoff: data.dropoff,
       roomOrName: data.roomOrName ?? null,
       vehicle: data.vehicle ?? null,
+      vehicleClass: data.vehicleClass ?? null,
+      vehicleId: data.vehicleId ?? null,
       amountEUR: typeof data.amountEUR === "number" ? data.amountEUR : null,
+      quotedEUR: typeof data.quotedEUR === "number" ? data.quotedEUR : null,
       payment: data.payment ?? null,
 
       customerId: data.customerId,
@@ -199,7 +384,10 @@ export class D1Service {
       dropoff: createData.dropoff,
       roomOrName: createData.roomOrName,
       vehicle: createData.vehicle,
+      vehicleClass: createData.vehicleClass,
+      vehicleId: createData.vehicleId,
       amountEUR: createData.amountEUR,
+      quotedEUR: createData.quotedEUR,
       payment: createData.payment,
 
       customerId: createData.customerId,
@@ -226,29 +414,28 @@ export class D1Service {
    */
   static async updateD1Transfer(
     transferId: string,
-    patch: Partial<{
-      rideDateISO: string;
-      rideTime: string;
-      pickup: string;
-      dropoff: string;
-      roomOrName: string | null;
-      vehicle: string | null;
-      amountEUR: number | null;
-      payment: string | null;
-
-      customerId: string;
-      customerName: string | null;
-
-      driverId: string | null;
-      driverName: string | null;
-
-      state: TransferState;
-      requestedAtISO: string;
-    }>
+    patch: D1TransferPatch,
+    change?: TransferChange,
+    stateChange?: D1StateChangeInput
   ) {
     D1Service.assertNonEmptyString(transferId, "transferId");
     const prisma = D1Service.prisma();
 
+    if (change) {
+      // A transition only applies if the row is still where we validated it
+      const guards = D1Service.transitionGuards(stateChange);
+      const applied = await D1Service.batchWithOutbox(
+        D1Service.updateStatement(transferId, patch, guards),
+        transferId,
+        change,
+        patch,
+        stateChange,
+        Object.keys(guards).length > 0
+      );
+      if (!applied) throw new TransferConflictError(transferId);
+      return prisma.transfer.findUniqueOrThrow({ where: { transferId } });
+    }
+
     const data: Prisma.TransferUpdateInput = {
       ...(patch.rideDateISO !== undefined ? { rideDateISO: patch.rideDateISO } : {}),
       ...(patch.rideTime !== undefined ? { rideTime: patch.rideTime } : {}),
@@ -256,7 +443,12 @@ export class D1Service {
       ...(patch.dropoff !== undefined ? { dropoff: patch.dropoff } : {}),
       ...(patch.roomOrName !== undefined ? { roomOrName: patch.roomOrName } : {}),
       ...(patch.vehicle !== undefined ? { vehicle: patch.vehicle } : {}),
+      ...(patch.vehicleClass !== undefined
+        ? { vehicleClass: patch.vehicleClass }
+        : {}),
+      ...(patch.vehicleId !== undefined ? { vehicleId: patch.vehicleId } : {}),
       ...(patch.amountEUR !== undefined ? { amountEUR: patch.amountEUR } : {}),
+      ...(patch.quotedEUR !== undefined ? { quotedEUR: patch.quotedEUR } : {}),
       ...(patch.payment !== undefined ? { payment: patch.payment } : {}),
 
       ...(patch.customerId !== undefined ? { customerId: patch.customerId } : {}),
@@ -266,6 +458,9 @@ export class D1Service {
       ...(patch.driverName !== undefined ? { driverName: patch.driverName } : {}),
 
       ...(patch.state !== undefined ? { state: patch.state as any } : {}),
+      ...(patch.rideProgress !== undefined
+        ? { rideProgress: patch.rideProgress as any }
+        : {}),
       ...(patch.requestedAtISO !== undefined
         ? { requestedAtISO: new Date(patch.requestedAtISO) }
         : {})
@@ -276,4 +471,1242 @@ export class D1Service {
       data
     });
   }
+
+  /**
+   * State history of a transfer, oldest first.
+   */
+  static async listTransferStateChanges(transferId: string) {
+    D1Service.assertNonEmptyString(transferId, "transferId");
+    const prisma = D1Service.prisma();
+    return prisma.transferStateChange.findMany({
+      where: { transferId },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+    });
+  }
+
+  /**
+   * Declines (see TransferService.declineAssignment) of the given
+   * transfers; actorId is the declining driver.
+   */
+  static async listTransferDeclines(transferIds: string[]) {
+    if (!transferIds.length) return [];
+    const prisma = D1Service.prisma();
+    return prisma.transferStateChange.findMany({
+      where: {
+        transferId: { in: transferIds },
+        reason: { startsWith: "declined" },
+        actorId: { not: null }
+      },
+      select: { transferId: true, actorId: true, reason: true }
+    });
+  }
+
+  // --------------------------------------------------
+  // SHEETS OUTBOX
+  // --------------------------------------------------
+
+  /**
+   * Run a transfer write, its state history entry and its outbox entry in
+   * one D1 batch. Prisma ignores transactions on D1, a D1 batch is atomic.
+   *
+   * With `guarded`, the follow-up inserts only happen if the write changed a
+   * row (SQLite changes()), and false is returned when it did not.
+   */
+  private static async batchWithOutbox(
+    write: D1PreparedStatement,
+    transferId: string,
+    change: TransferChange,
+    payload: unknown,
+    stateChange?: D1StateChangeInput,
+    guarded = false
+  ): Promise<boolean> {
+    const db = D1Service.db();
+    const now = D1Service.toD1Value(new Date());
+    const onlyIfWritten = guarded ? "WHERE changes() = 1" : "";
+
+    const statements = [write];
+
+    if (stateChange) {
+      statements.push(
+        db
+          .prepare(
+            `INSERT INTO "TransferStateChange" ("transferId", "fromState", "toState", "fromProgress", "toProgress", "actorId", "reason", "createdAt")
+             SELECT ?, ?, ?, ?, ?, ?, ?, ? ${onlyIfWritten}`
+          )
+          .bind(
+            transferId,
+            stateChange.fromState,
+            stateChange.toState,
+            stateChange.fromProgress ?? null,
+            stateChange.toProgress ?? null,
+            stateChange.actorId ?? null,
+            stateChange.reason ?? null,
+            now
+          )
+      );
+    }
+
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO "TransferOutbox" ("transferId", "change", "payload", "status", "attempts", "nextAttemptAt", "createdAt")
+           SELECT ?, ?, ?, 'pending', 0, ?, ? ${onlyIfWritten}`
+        )
+        .bind(transferId, change, JSON.stringify(payload), now, now)
+    );
+
+    const [writeResult] = await db.batch(statements);
+    return !guarded || (writeResult?.meta?.changes ?? 0) > 0;
+  }
+
+  private static upsertStatement(data: D1TransferInput): D1PreparedStatement {
+    const now = new Date();
+    const columns: Record<string, unknown> = {
+      transferId: data.transferId,
+      rideDateISO: data.rideDateISO,
+      rideTime: data.rideTime,
+      pickup: data.pickup,
+      dropoff: data.dropoff,
+      roomOrName: data.roomOrName ?? null,
+      vehicle: data.vehicle ?? null,
+      vehicleClass: data.vehicleClass ?? null,
+      vehicleId: data.vehicleId ?? null,
+      amountEUR: typeof data.amountEUR === "number" ? data.amountEUR : null,
+      quotedEUR: typeof data.quotedEUR === "number" ? data.quotedEUR : null,
+      payment: data.payment ?? null,
+      customerId: data.customerId,
+      customerName: data.customerName ?? null,
+      driverId: data.driverId ?? null,
+      driverName: data.driverName ?? null,
+      state: data.state,
+      requestedAtISO: data.requestedAtISO ? new Date(data.requestedAtISO) : now,
+      updatedAtISO: now
+    };
+
+    const names = Object.keys(columns);
+    const updates = names
+      .filter((n) => n !== "transferId")
+      // keep the original request time unless the caller provides one
+      .filter((n) => n !== "requestedAtISO" || !!data.requestedAtISO)
+      .map((n) => `"${n}" = excluded."${n}"`);
+
+    return D1Service.db()
+      .prepare(
+        `INSERT INTO "Transfer" (${names.map((n) => `"${n}"`).join(", ")})
+         VALUES (${names.map(() => "?").join(", ")})
+         ON CONFLICT("transferId") DO UPDATE SET ${updates.join(", ")}`
+      )
+      .bind(...names.map((n) => D1Service.toD1Value(columns[n])));
+  }
+
+  /**
+   * Column values the row must still have for a transition to apply.
+   */
+  private static transitionGuards(
+    stateChange?: D1StateChangeInput
+  ): Record<string, unknown> {
+    const guards: Record<string, unknown> = {};
+    if (!stateChange) return guards;
+    if (stateChange.fromState) guards.state = stateChange.fromState;
+    if (stateChange.fromProgress !== undefined) {
+      guards.rideProgress = stateChange.fromProgress;
+    }
+    if (stateChange.expectedDriverId) {
+      guards.driverId = stateChange.expectedDriverId;
+    }
+    return guards;
+  }
+
+  private static updateStatement(
+    transferId: string,
+    patch: D1TransferPatch,
+    guards: Record<string, unknown> = {}
+  ): D1PreparedStatement {
+    const columns: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) continue;
+      columns[key] = key === "requestedAtISO" ? new Date(value as string) : value;
+    }
+    columns.updatedAtISO = new Date();
+
+    const names = Object.keys(columns);
+    const values = names.map((n) => D1Service.toD1Value(columns[n]));
+    // IS instead of = so a guard can also expect NULL
+    const guardNames = Object.keys(guards);
+    const guardSql = guardNames.map((n) => ` AND "${n}" IS ?`).join("");
+
+    return D1Service.db()
+      .prepare(
+        `UPDATE "Transfer" SET ${names.map((n) => `"${n}" = ?`).join(", ")}
+         WHERE "transferId" = ?${guardSql}`
+      )
+      .bind(
+        ...values,
+        transferId,
+        ...guardNames.map((n) => D1Service.toD1Value(guards[n]))
+      );
+  }
+
+  /**
+   * Lease due outbox entries so concurrent projectors (cron + request
+   * background task) don't work on the same entry.
+   */
+  static async claimOutboxEntries(opts: {
+    limit: number;
+    leaseMs: number;
+    transferId?: string;
+  }) {
+    const prisma = D1Service.prisma();
+    const now = new Date();
+
+    const due = await prisma.transferOutbox.findMany({
+      where: {
+        status: "pending",
+        nextAttemptAt: { lte: now },
+        ...(opts.transferId ? { transferId: opts.transferId } : {})
+      },
+      orderBy: { id: "asc" },
+      take: opts.limit
+    });
+
+    const claimed: typeof due = [];
+    for (const entry of due) {
+      const { count } = await prisma.transferOutbox.updateMany({
+        where: {
+          id: entry.id,
+          status: "pending",
+          nextAttemptAt: entry.nextAttemptAt
+        },
+        data: { nextAttemptAt: new Date(now.getTime() + opts.leaseMs) }
+      });
+      if (count === 1) claimed.push(entry);
+    }
+
+    return claimed;
+  }
+
+  static async completeOutboxEntries(ids: number[]) {
+    if (!ids.length) return;
+    const prisma = D1Service.prisma();
+    await prisma.transferOutbox.updateMany({
+      where: { id: { in: ids } },
+      data: { status: "done", processedAt: new Date(), lastError: null }
+    });
+  }
+
+  /**
+   * Record a failed projection: back off exponentially and dead-letter
+   * after OUTBOX_MAX_ATTEMPTS.
+   * Returns true if the entry was dead-lettered.
+   */
+  static async failOutboxEntry(
+    entry: { id: number; attempts: number },
+    error: unknown
+  ): Promise<boolean> {
+    const prisma = D1Service.prisma();
+    const attempts = entry.attempts + 1;
+    const dead = attempts >= OUTBOX_MAX_ATTEMPTS;
+    const backoff = Math.min(
+      OUTBOX_BASE_BACKOFF_MS * 2 ** (attempts - 1),
+      OUTBOX_MAX_BACKOFF_MS
+    );
+
+    await prisma.transferOutbox.update({
+      where: { id: entry.id },
+      data: {
+        attempts,
+        status: dead ? "dead" : "pending",
+        lastError: String((error as any)?.message ?? error).slice(0, 1000),
+        nextAttemptAt: new Date(Date.now() + backoff)
+      }
+    });
+
+    return dead;
+  }
+
+  @requireAuth()
+  @requirePermission("sheets:sync")
+  static async getSheetsOutbox(args?: {
+    status?: "pending" | "done" | "dead";
+    transferId?: string;
+    take?: number;
+    skip?: number;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.transferOutbox.findMany({
+      where: {
+        ...(args?.status ? { status: args.status } : {}),
+        ...(args?.transferId ? { transferId: args.transferId } : {})
+      },
+      orderBy: { id: "desc" },
+      take: args?.take ?? 100,
+      skip: args?.skip
+    });
+  }
+
+  /**
+   * Put a dead-lettered (or any) outbox entry back into the queue.
+   */
+  @requireAuth()
+  @requirePermission("sheets:sync")
+  static async requeueSheetsOutboxEntry(id: number) {
+    const prisma = D1Service.prisma();
+    return prisma.transferOutbox.update({
+      where: { id },
+      data: {
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date()
+      }
+    });
+  }
+
+  // --------------------------------------------------
+  // PUSH SUBSCRIPTIONS
+  // --------------------------------------------------
+
+  /**
+   * Subscriptions of one or many users in a single query.
+   */
+  static async listPushSubscriptions(userIds: string[]) {
+    if (!userIds.length) return [];
+    const prisma = D1Service.prisma();
+    return prisma.pushSubscription.findMany({
+      where: { userId: { in: userIds } },
+      orderBy: { createdAt: "asc" }
+    });
+  }
+
+  /**
+   * Insert or refresh a subscription. An endpoint belongs to whoever
+   * subscribed it last (shared devices).
+   */
+  static async upsertPushSubscription(data: D1PushSubscriptionInput) {
+    D1Service.assertNonEmptyString(data.endpoint, "endpoint");
+    D1Service.assertNonEmptyString(data.userId, "userId");
+    const prisma = D1Service.prisma();
+
+    const fields = {
+      userId: data.userId,
+      p256dh: data.p256dh ?? null,
+      auth: data.auth ?? null,
+      expirationTime:
+        typeof data.expirationTime === "number"
+          ? new Date(data.expirationTime)
+          : null,
+      deviceId: data.deviceId ?? null,
+      userAgent: data.userAgent ?? null
+    };
+
+    return prisma.pushSubscription.upsert({
+      where: { endpoint: data.endpoint },
+      create: { endpoint: data.endpoint, ...fields },
+      update: fields
+    });
+  }
+
+  /**
+   * Delete subscriptions by endpoint, optionally only those of one user.
+   * Returns the number of removed rows.
+   */
+  static async deletePushSubscriptions(
+    endpoints: string[],
+    userId?: string
+  ): Promise<number> {
+    if (!endpoints.length) return 0;
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.pushSubscription.deleteMany({
+      where: {
+        endpoint: { in: endpoints },
+        ...(userId ? { userId } : {})
+      }
+    });
+    return count;
+  }
+
+  static async deleteUserPushSubscriptions(userId: string): Promise<number> {
+    D1Service.assertNonEmptyString(userId, "userId");
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.pushSubscription.deleteMany({
+      where: { userId }
+    });
+    return count;
+  }
+
+  static async markPushSubscriptionsDelivered(endpoints: string[]) {
+    if (!endpoints.length) return;
+    const prisma = D1Service.prisma();
+    await prisma.pushSubscription.updateMany({
+      where: { endpoint: { in: endpoints } },
+      data: { lastSuccessAt: new Date() }
+    });
+  }
+
+  // --------------------------------------------------
+  // NOTIFICATION PREFERENCES / DEFERRED PUSHES
+  // --------------------------------------------------
+
+  static async listNotificationPreferences(userIds: string[]) {
+    if (!userIds.length) return [];
+    const prisma = D1Service.prisma();
+    return prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds } }
+    });
+  }
+
+  static async upsertNotificationPreference(
+    userId: string,
+    data: {
+      mutedCategories?: string[];
+      mutedDeviceIds?: string[];
+      channels?: string[];
+      quietHoursStart?: string | null;
+      quietHoursEnd?: string | null;
+      timezone?: string;
+      language?: string | null;
+    }
+  ) {
+    D1Service.assertNonEmptyString(userId, "userId");
+    const prisma = D1Service.prisma();
+
+    const fields = {
+      ...(data.mutedCategories !== undefined
+        ? { mutedCategories: JSON.stringify(data.mutedCategories) }
+        : {}),
+      ...(data.mutedDeviceIds !== undefined
+        ? { mutedDeviceIds: JSON.stringify(data.mutedDeviceIds) }
+        : {}),
+      ...(data.channels !== undefined
+        ? { channels: JSON.stringify(data.channels) }
+        : {}),
+      ...(data.quietHoursStart !== undefined
+        ? { quietHoursStart: data.quietHoursStart }
+        : {}),
+      ...(data.quietHoursEnd !== undefined
+        ? { quietHoursEnd: data.quietHoursEnd }
+        : {}),
+      ...(data.timezone !== undefined ? { timezone: data.timezone } : {}),
+      ...(data.language !== undefined ? { language: data.language } : {})
+    };
+
+    return prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...fields },
+      update: fields
+    });
+  }
+
+  static async enqueueDeferredNotification(data: {
+    userId: string;
+    category: string;
+    payload: unknown;
+    deliverAfter: Date;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.deferredNotification.create({
+      data: {
+        userId: data.userId,
+        category: data.category,
+        payload: JSON.stringify(data.payload),
+        deliverAfter: data.deliverAfter
+      }
+    });
+  }
+
+  /**
+   * Take due deferred pushes off the queue. Each row is deleted before it
+   * is returned, so concurrent runs never send the same push twice.
+   */
+  static async takeDueDeferredNotifications(limit = 100) {
+    const prisma = D1Service.prisma();
+    const due = await prisma.deferredNotification.findMany({
+      where: { deliverAfter: { lte: new Date() } },
+      orderBy: { deliverAfter: "asc" },
+      take: limit
+    });
+
+    const taken: typeof due = [];
+    for (const entry of due) {
+      const { count } = await prisma.deferredNotification.deleteMany({
+        where: { id: entry.id }
+      });
+      if (count === 1) taken.push(entry);
+    }
+    return taken;
+  }
+
+  // --------------------------------------------------
+  // RIDE REMINDERS
+  // --------------------------------------------------
+
+  /**
+   * Record that reminder `kind` goes out for a transfer. Returns false if
+   * it was already recorded, so each reminder is sent at most once even
+   * when cron runs overlap.
+   */
+  static async claimTransferReminder(
+    transferId: string,
+    kind: string
+  ): Promise<boolean> {
+    const result = await D1Service.db()
+      .prepare(
+        `INSERT OR IGNORE INTO "TransferReminder" ("transferId", "kind", "sentAt")
+         VALUES (?, ?, ?)`
+      )
+      .bind(transferId, kind, D1Service.toD1Value(new Date()))
+      .run();
+    return result.meta.changes === 1;
+  }
+
+  // --------------------------------------------------
+  // BROADCASTS
+  // --------------------------------------------------
+
+  static async createBroadcast(data: {
+    createdBy: string;
+    roleKey?: string | null;
+    userIds?: string[] | null;
+    title: string;
+    body?: string | null;
+    url?: string | null;
+    urgent?: boolean;
+    status: "scheduled" | "sending";
+    scheduledFor: Date;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.broadcast.create({
+      data: {
+        ...data,
+        userIds: data.userIds ? JSON.stringify(data.userIds) : null
+      }
+    });
+  }
+
+  static async getBroadcast(id: number) {
+    const prisma = D1Service.prisma();
+    return prisma.broadcast.findUnique({ where: { id } });
+  }
+
+  static async listBroadcasts(args?: {
+    status?: "scheduled" | "sending" | "sent" | "canceled";
+    take?: number;
+    skip?: number;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.broadcast.findMany({
+      where: args?.status ? { status: args.status } : {},
+      orderBy: { id: "desc" },
+      take: args?.take ?? 50,
+      skip: args?.skip
+    });
+  }
+
+  static async listBroadcastDeliveries(broadcastId: number) {
+    const prisma = D1Service.prisma();
+    return prisma.broadcastDelivery.findMany({
+      where: { broadcastId },
+      orderBy: { userId: "asc" }
+    });
+  }
+
+  /**
+   * Move due scheduled broadcasts to "sending". Only the run whose update
+   * hit the row gets it, so overlapping crons don't send twice.
+   */
+  static async claimDueBroadcasts(limit = 10) {
+    const prisma = D1Service.prisma();
+    const due = await prisma.broadcast.findMany({
+      where: { status: "scheduled", scheduledFor: { lte: new Date() } },
+      orderBy: { scheduledFor: "asc" },
+      take: limit
+    });
+
+    const claimed: typeof due = [];
+    for (const b of due) {
+      const { count } = await prisma.broadcast.updateMany({
+        where: { id: b.id, status: "scheduled" },
+        data: { status: "sending" }
+      });
+      if (count === 1) claimed.push({ ...b, status: "sending" });
+    }
+    return claimed;
+  }
+
+  /**
+   * Sending → scheduled, so the next cron run tries again.
+   */
+  static async releaseBroadcast(id: number): Promise<boolean> {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.broadcast.updateMany({
+      where: { id, status: "sending" },
+      data: { status: "scheduled" }
+    });
+    return count === 1;
+  }
+
+  /**
+   * Scheduled → canceled. False if the broadcast is no longer scheduled.
+   */
+  static async cancelBroadcast(id: number): Promise<boolean> {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.broadcast.updateMany({
+      where: { id, status: "scheduled" },
+      data: { status: "canceled" }
+    });
+    return count === 1;
+  }
+
+  static async finishBroadcast(
+    id: number,
+    deliveries: {
+      userId: string;
+      status: string;
+      delivered: number;
+      failed: number;
+      error?: string | null;
+    }[]
+  ) {
+    const prisma = D1Service.prisma();
+    if (deliveries.length) {
+      await prisma.broadcastDelivery.createMany({
+        data: deliveries.map((d) => ({ broadcastId: id, ...d }))
+      });
+    }
+    return prisma.broadcast.update({
+      where: { id },
+      data: {
+        status: "sent",
+        sentAt: new Date(),
+        recipients: deliveries.length,
+        delivered: deliveries.filter((d) => d.delivered > 0).length,
+        failed: deliveries.filter((d) => d.status === "failed").length
+      }
+    });
+  }
+
+  // --------------------------------------------------
+  // NOTIFICATION INBOX
+  // --------------------------------------------------
+
+  static async createNotifications(
+    rows: {
+      userId: string;
+      category: string;
+      title: string;
+      body?: string | null;
+      data?: unknown;
+    }[]
+  ) {
+    if (!rows.length) return 0;
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.notification.createMany({
+      data: rows.map((r) => ({
+        userId: r.userId,
+        category: r.category,
+        title: r.title,
+        body: r.body ?? null,
+        data: r.data === undefined ? null : JSON.stringify(r.data)
+      }))
+    });
+    return count;
+  }
+
+  /**
+   * Newest first. Page with `beforeId` (the last id of the previous page).
+   * Dismissed entries are left out.
+   */
+  static async listNotifications(
+    userId: string,
+    args?: { take?: number; beforeId?: number; unreadOnly?: boolean }
+  ) {
+    const prisma = D1Service.prisma();
+    return prisma.notification.findMany({
+      where: {
+        userId,
+        dismissedAt: null,
+        ...(args?.unreadOnly ? { readAt: null } : {}),
+        ...(args?.beforeId ? { id: { lt: args.beforeId } } : {})
+      },
+      orderBy: { id: "desc" },
+      take: args?.take ?? 20
+    });
+  }
+
+  static async countUnreadNotifications(userId: string) {
+    const prisma = D1Service.prisma();
+    return prisma.notification.count({
+      where: { userId, readAt: null, dismissedAt: null }
+    });
+  }
+
+  /**
+   * Mark `ids` (all unread if omitted) of a user as read.
+   */
+  static async markNotificationsRead(userId: string, ids?: number[]) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+      data: { readAt: new Date() }
+    });
+    return count;
+  }
+
+  static async dismissNotifications(userId: string, ids: number[]) {
+    const prisma = D1Service.prisma();
+    const now = new Date();
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, id: { in: ids }, dismissedAt: null },
+      data: { dismissedAt: now }
+    });
+    // Dismissing implies read
+    await prisma.notification.updateMany({
+      where: { userId, id: { in: ids }, readAt: null },
+      data: { readAt: now }
+    });
+    return count;
+  }
+
+  // --------------------------------------------------
+  // RIDE DURATION ESTIMATES
+  // --------------------------------------------------
+
+  static async listRideDurationEstimates() {
+    const prisma = D1Service.prisma();
+    return prisma.rideDurationEstimate.findMany();
+  }
+
+  static async upsertRideDurationEstimate(
+    pickup: string,
+    dropoff: string,
+    minutes: number
+  ) {
+    D1Service.assertNonEmptyString(pickup, "pickup");
+    D1Service.assertNonEmptyString(dropoff, "dropoff");
+    const prisma = D1Service.prisma();
+    return prisma.rideDurationEstimate.upsert({
+      where: { pickup_dropoff: { pickup, dropoff } },
+      create: { pickup, dropoff, minutes },
+      update: { minutes }
+    });
+  }
+
+  // --------------------------------------------------
+  // DRIVER SHIFTS / ABSENCES
+  // --------------------------------------------------
+
+  static async listDriverShifts(driverIds?: string[]) {
+    const prisma = D1Service.prisma();
+    return prisma.driverShift.findMany({
+      where: driverIds ? { driverId: { in: driverIds } } : {},
+      orderBy: [{ driverId: "asc" }, { weekday: "asc" }, { startTime: "asc" }]
+    });
+  }
+
+  static async createDriverShift(data: {
+    driverId: string;
+    weekday: number;
+    startTime: string;
+    endTime: string;
+    validFrom?: string | null;
+    validUntil?: string | null;
+  }) {
+    D1Service.assertNonEmptyString(data.driverId, "driverId");
+    const prisma = D1Service.prisma();
+    return prisma.driverShift.create({ data });
+  }
+
+  // Scoped to the driver so nobody deletes someone else's entry by id
+  static async deleteDriverShift(driverId: string, id: number) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.driverShift.deleteMany({
+      where: { id, driverId }
+    });
+    return count === 1;
+  }
+
+  /**
+   * Absences overlapping [fromDateISO, toDateISO] (open ends allowed).
+   */
+  static async listDriverAbsences(args?: {
+    driverIds?: string[];
+    fromDateISO?: string;
+    toDateISO?: string;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.driverAbsence.findMany({
+      where: {
+        ...(args?.driverIds ? { driverId: { in: args.driverIds } } : {}),
+        ...(args?.fromDateISO ? { endDateISO: { gte: args.fromDateISO } } : {}),
+        ...(args?.toDateISO ? { startDateISO: { lte: args.toDateISO } } : {})
+      },
+      orderBy: [{ startDateISO: "asc" }]
+    });
+  }
+
+  static async createDriverAbsence(data: {
+    driverId: string;
+    kind: "vacation" | "sickLeave" | "other";
+    startDateISO: string;
+    endDateISO: string;
+    note?: string | null;
+  }) {
+    D1Service.assertNonEmptyString(data.driverId, "driverId");
+    const prisma = D1Service.prisma();
+    return prisma.driverAbsence.create({ data });
+  }
+
+  static async deleteDriverAbsence(driverId: string, id: number) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.driverAbsence.deleteMany({
+      where: { id, driverId }
+    });
+    return count === 1;
+  }
+
+  // --------------------------------------------------
+  // VEHICLES
+  // --------------------------------------------------
+
+  static async listVehicles(args?: {
+    activeOnly?: boolean;
+    vehicleClass?: VehicleClass;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.vehicle.findMany({
+      where: {
+        ...(args?.activeOnly ? { active: true } : {}),
+        ...(args?.vehicleClass ? { vehicleClass: args.vehicleClass } : {})
+      },
+      orderBy: [{ vehicleClass: "asc" }, { plate: "asc" }]
+    });
+  }
+
+  static async findVehicle(id: string) {
+    const prisma = D1Service.prisma();
+    return prisma.vehicle.findUnique({ where: { id } });
+  }
+
+  static async findVehicleByPlate(plate: string) {
+    const prisma = D1Service.prisma();
+    return prisma.vehicle.findUnique({ where: { plate } });
+  }
+
+  static async createVehicle(data: {
+    plate: string;
+    name?: string | null;
+    vehicleClass: VehicleClass;
+    seats: number;
+    luggage: number;
+  }) {
+    D1Service.assertNonEmptyString(data.plate, "plate");
+    const prisma = D1Service.prisma();
+    return prisma.vehicle.create({ data });
+  }
+
+  static async updateVehicle(
+    id: string,
+    data: Partial<{
+      plate: string;
+      name: string | null;
+      vehicleClass: VehicleClass;
+      seats: number;
+      luggage: number;
+      active: boolean;
+    }>
+  ) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.vehicle.updateMany({ where: { id }, data });
+    return count === 1;
+  }
+
+  // --------------------------------------------------
+  // TARIFFS
+  // --------------------------------------------------
+
+  static async listTariffZones() {
+    const prisma = D1Service.prisma();
+    return prisma.tariffZone.findMany({
+      orderBy: [{ zone: "asc" }, { place: "asc" }]
+    });
+  }
+
+  static async upsertTariffZone(place: string, zone: string) {
+    D1Service.assertNonEmptyString(place, "place");
+    D1Service.assertNonEmptyString(zone, "zone");
+    const prisma = D1Service.prisma();
+    return prisma.tariffZone.upsert({
+      where: { place },
+      create: { place, zone },
+      update: { zone }
+    });
+  }
+
+  static async deleteTariffZone(place: string) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.tariffZone.deleteMany({ where: { place } });
+    return count === 1;
+  }
+
+  static async listTariffs() {
+    const prisma = D1Service.prisma();
+    return prisma.tariff.findMany({
+      orderBy: [{ fromZone: "asc" }, { toZone: "asc" }]
+    });
+  }
+
+  static async upsertTariff(fromZone: string, toZone: string, priceEUR: number) {
+    D1Service.assertNonEmptyString(fromZone, "fromZone");
+    D1Service.assertNonEmptyString(toZone, "toZone");
+    const prisma = D1Service.prisma();
+    return prisma.tariff.upsert({
+      where: { fromZone_toZone: { fromZone, toZone } },
+      create: { fromZone, toZone, priceEUR },
+      update: { priceEUR }
+    });
+  }
+
+  static async deleteTariff(id: number) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.tariff.deleteMany({ where: { id } });
+    return count === 1;
+  }
+
+  // --------------------------------------------------
+  // RATE CARDS
+  // --------------------------------------------------
+
+  static async listRateCards(customerId?: string) {
+    const prisma = D1Service.prisma();
+    return prisma.rateCard.findMany({
+      where: customerId ? { customerId } : {},
+      include: { lines: { orderBy: { id: "asc" } } },
+      orderBy: [{ customerId: "asc" }, { version: "desc" }]
+    });
+  }
+
+  static async findRateCard(id: number) {
+    const prisma = D1Service.prisma();
+    return prisma.rateCard.findUnique({
+      where: { id },
+      include: { lines: { orderBy: { id: "asc" } } }
+    });
+  }
+
+  /**
+   * Next version for the customer; a concurrent publish fails on the
+   * (customerId, version) unique index instead of sharing a number.
+   */
+  static async createRateCard(data: {
+    customerId: string;
+    validFrom: string;
+    validUntil?: string | null;
+    note?: string | null;
+    createdBy?: string | null;
+    lines: {
+      pickup: string;
+      dropoff: string;
+      vehicleClass?: VehicleClass | null;
+      priceEUR: number;
+    }[];
+  }) {
+    D1Service.assertNonEmptyString(data.customerId, "customerId");
+    const prisma = D1Service.prisma();
+    const latest = await prisma.rateCard.aggregate({
+      where: { customerId: data.customerId },
+      _max: { version: true }
+    });
+
+    return prisma.rateCard.create({
+      data: {
+        customerId: data.customerId,
+        version: (latest._max.version ?? 0) + 1,
+        validFrom: data.validFrom,
+        validUntil: data.validUntil ?? null,
+        note: data.note ?? null,
+        createdBy: data.createdBy ?? null,
+        lines: { create: data.lines }
+      },
+      include: { lines: { orderBy: { id: "asc" } } }
+    });
+  }
+
+  static async setRateCardValidUntil(id: number, validUntil: string | null) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.rateCard.updateMany({
+      where: { id },
+      data: { validUntil }
+    });
+    return count === 1;
+  }
+
+  // --------------------------------------------------
+  // BILLING RULES
+  // --------------------------------------------------
+
+  /**
+   * Default rules plus those of `customerId`; all rules without argument.
+   */
+  static async listBillingRules(customerId?: string) {
+    const prisma = D1Service.prisma();
+    return prisma.billingRule.findMany({
+      where:
+        customerId !== undefined
+          ? { OR: [{ customerId: null }, { customerId }] }
+          : {},
+      orderBy: [{ effectiveFrom: "asc" }, { id: "asc" }]
+    });
+  }
+
+  static async findBillingRule(id: number) {
+    const prisma = D1Service.prisma();
+    return prisma.billingRule.findUnique({ where: { id } });
+  }
+
+  static async createBillingRule(data: {
+    customerId?: string | null;
+    effectiveFrom: string;
+    transportVatPercent?: number | null;
+    extrasVatPercent?: number | null;
+    earlyPaymentDiscountPercent?: number | null;
+    voucherPayment?: string | null;
+    note?: string | null;
+    createdBy?: string | null;
+  }) {
+    D1Service.assertNonEmptyString(data.effectiveFrom, "effectiveFrom");
+    const prisma = D1Service.prisma();
+    return prisma.billingRule.create({ data });
+  }
+
+  static async deleteBillingRule(id: number) {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.billingRule.deleteMany({ where: { id } });
+    return count === 1;
+  }
+
+  // --------------------------------------------------
+  // INVOICES
+  // --------------------------------------------------
+
+  static async findInvoice(id: number) {
+    const prisma = D1Service.prisma();
+    return prisma.invoice.findUnique({
+      where: { id },
+      include: { lines: { orderBy: { position: "asc" } } }
+    });
+  }
+
+  static async listInvoices(args?: {
+    customerId?: string;
+    status?: D1InvoiceStatus;
+    excludeDrafts?: boolean;
+    take?: number;
+    skip?: number;
+  }) {
+    const prisma = D1Service.prisma();
+    return prisma.invoice.findMany({
+      where: {
+        ...(args?.customerId ? { customerId: args.customerId } : {}),
+        ...(args?.status
+          ? { status: args.status }
+          : args?.excludeDrafts
+          ? { status: { not: "draft" } }
+          : {})
+      },
+      include: { lines: { orderBy: { position: "asc" } } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: args?.take ?? 100,
+      skip: args?.skip ?? 0
+    });
+  }
+
+  /**
+   * Transfers of `customerId` on a draft or issued invoice (not on one
+   * that was canceled).
+   */
+  static async billedTransferIds(customerId: string): Promise<Set<string>> {
+    const prisma = D1Service.prisma();
+    const lines = await prisma.invoiceLine.findMany({
+      where: {
+        transferId: { not: null },
+        invoice: {
+          customerId,
+          kind: "invoice",
+          status: { in: ["draft", "issued"] }
+        }
+      },
+      select: { transferId: true }
+    });
+    return new Set(lines.map((l) => l.transferId!));
+  }
+
+  /**
+   * Draft and issued credit notes against invoice `invoiceId`.
+   */
+  static async listCreditNotesFor(invoiceId: number) {
+    const prisma = D1Service.prisma();
+    return prisma.invoice.findMany({
+      where: {
+        correctsInvoiceId: invoiceId,
+        kind: "creditNote",
+        status: { in: ["draft", "issued"] }
+      },
+      include: { lines: { orderBy: { position: "asc" } } }
+    });
+  }
+
+  static async createInvoice(
+    data: D1InvoiceHeader & {
+      kind?: "invoice" | "creditNote";
+      customerId: string;
+      customerName?: string | null;
+      periodFrom: string;
+      periodUntil: string;
+      correctsInvoiceId?: number | null;
+      createdBy?: string | null;
+    },
+    lines: D1InvoiceLineInput[]
+  ) {
+    D1Service.assertNonEmptyString(data.customerId, "customerId");
+    const prisma = D1Service.prisma();
+    return prisma.invoice.create({
+      data: { ...data, lines: { create: lines } },
+      include: { lines: { orderBy: { position: "asc" } } }
+    });
+  }
+
+  /**
+   * Replace totals and lines of a draft; false if it is no draft anymore.
+   * One batch, every statement guarded on the draft status, so an issue
+   * can't slip in between and the totals always match the lines.
+   */
+  static async replaceDraftInvoice(
+    id: number,
+    header: D1InvoiceHeader,
+    lines: D1InvoiceLineInput[]
+  ): Promise<boolean> {
+    const db = D1Service.db();
+    const isDraft = `EXISTS (SELECT 1 FROM "Invoice" WHERE "id" = ? AND "status" = 'draft')`;
+
+    const fields = INVOICE_HEADER_COLUMNS.filter(
+      (k) => header[k] !== undefined
+    ).map((k) => [k, header[k]] as const);
+    const statements: D1PreparedStatement[] = [
+      db
+        .prepare(
+          `UPDATE "Invoice" SET ${fields
+            .map(([k]) => `"${k}" = ?`)
+            .join(", ")}, "updatedAt" = ?
+           WHERE "id" = ? AND "status" = 'draft'`
+        )
+        .bind(
+          ...fields.map(([, v]) => D1Service.toD1Value(v)),
+          D1Service.toD1Value(new Date()),
+          id
+        ),
+      db
+        .prepare(
+          `DELETE FROM "InvoiceLine" WHERE "invoiceId" = ? AND ${isDraft}`
+        )
+        .bind(id, id),
+      ...lines.map((l) =>
+        db
+          .prepare(
+            `INSERT INTO "InvoiceLine" ("invoiceId", "position", "kind", "transferId", "rideDateISO", "description", "amountEUR", "vatPercent", "voucher")
+             SELECT ?, ?, ?, ?, ?, ?, ?, ?, ? WHERE ${isDraft}`
+          )
+          .bind(
+            id,
+            l.position,
+            l.kind,
+            l.transferId ?? null,
+            l.rideDateISO ?? null,
+            l.description,
+            l.amountEUR,
+            l.vatPercent,
+            D1Service.toD1Value(l.voucher),
+            id
+          )
+      )
+    ];
+
+    const [updated] = await db.batch(statements);
+    return (updated?.meta?.changes ?? 0) === 1;
+  }
+
+  static async deleteDraftInvoice(id: number): Promise<boolean> {
+    const prisma = D1Service.prisma();
+    const { count } = await prisma.invoice.deleteMany({
+      where: { id, status: "draft" }
+    });
+    return count === 1;
+  }
+
+  /**
+   * Issue draft `id` as the next number of `year` ("2026-0042"). Status,
+   * sequence and number are written in one batch, each step only if the
+   * previous one applied (SQLite changes()), so a failed or concurrent
+   * issue never uses up a number. With `cancel`, the issued invoice is
+   * canceled first and nothing happens unless that succeeds (Storno).
+   * Returns false if nothing was issued.
+   */
+  static async issueInvoice(
+    id: number,
+    args: {
+      year: number;
+      issueDateISO: string;
+      issuedBy: string | null;
+      cancel?: { invoiceId: number; reason: string | null };
+    }
+  ): Promise<boolean> {
+    const db = D1Service.db();
+    const now = D1Service.toD1Value(new Date());
+    const statements: D1PreparedStatement[] = [];
+
+    if (args.cancel) {
+      statements.push(
+        db
+          .prepare(
+            `UPDATE "Invoice" SET "status" = 'canceled', "canceledAt" = ?, "canceledBy" = ?, "cancelReason" = ?, "updatedAt" = ?
+             WHERE "id" = ? AND "status" = 'issued'`
+          )
+          .bind(
+            now,
+            args.issuedBy,
+            args.cancel.reason,
+            now,
+            args.cancel.invoiceId
+          )
+      );
+    }
+
+    statements.push(
+      db
+        .prepare(
+          `UPDATE "Invoice" SET "status" = 'issued', "issueDateISO" = ?, "issuedAt" = ?, "issuedBy" = ?, "updatedAt" = ?
+           WHERE "id" = ? AND "status" = 'draft'${
+             args.cancel ? " AND changes() = 1" : ""
+           }`
+        )
+        .bind(args.issueDateISO, now, args.issuedBy, now, id),
+      db
+        .prepare(
+          `INSERT INTO "InvoiceNumberSequence" ("year", "last")
+           SELECT ?, 1 WHERE changes() = 1
+           ON CONFLICT("year") DO UPDATE SET "last" = "last" + 1`
+        )
+        .bind(args.year),
+      db
+        .prepare(
+          `UPDATE "Invoice" SET "number" = (
+             SELECT printf('%d-%04d', "year", "last") FROM "InvoiceNumberSequence" WHERE "year" = ?
+           )
+           WHERE "id" = ? AND "status" = 'issued' AND "number" IS NULL AND changes() = 1`
+        )
+        .bind(args.year, id)
+    );
+
+    const results = await db.batch(statements);
+    return (results[results.length - 1]?.meta?.changes ?? 0) === 1;
+  }
 }
@@ -0,0 +1,268 @@
+// src/dispatch.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { InvalidInputError } from "./errors/general.errors";
+import { requirePermission } from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import { TransferRow, TransferService } from "./transfer.service";
+import { UserService } from "./user.service";
+import {
+  durationLookup,
+  findConflicts,
+  normalizePlace,
+  RideConflict,
+  rideWindow,
+  RideWindow,
+  shiftDateISO
+} from "./utils/dispatchConflicts";
+import { DRIVER_ACTIVE_STATES } from "./utils/transferStateMachine";
+import { ScheduleService } from "./schedule.service";
+import {
+  absenceOn,
+  AbsenceKind,
+  isoWeekday,
+  unavailability
+} from "./utils/driverAvailability";
+
+export interface DispatchRide {
+  transfer: TransferRow;
+  startsAtISO: string | null;
+  endsAtISO: string | null; // incl. turnaround
+  durationMinutes: number;
+  // Assigned driver is absent / off shift at pickup time
+  driverUnavailable: "absent" | "offShift" | null;
+}
+
+export interface DispatchBoardDriver {
+  driverId: string;
+  driverName: string | null;
+  // False for users who drive rides but no longer have the driver role
+  hasDriverRole: boolean;
+  // Whole-day absence and the shifts starting on this weekday
+  absence: AbsenceKind | null;
+  shifts: { startTime: string; endTime: string }[];
+  rides: DispatchRide[];
+  conflicts: RideConflict[];
+}
+
+export interface DispatchBoard {
+  dateISO: string;
+  drivers: DispatchBoardDriver[];
+  unassigned: DispatchRide[];
+}
+
+const DATE_ISO = /^\d{4}-\d{2}-\d{2}$/;
+
+export class DispatchService {
+  /**
+   * All drivers with their availability and rides of the day (canceled /
+   * terminated rides left out) and overlapping rides per driver. Overlaps
+   * with rides of the neighbouring days are included, e.g. a 23:30 airport
+   * run.
+   */
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async dispatchBoard(dateISO: string): Promise<DispatchBoard> {
+    if (!DATE_ISO.test(dateISO)) {
+      throw new InvalidInputError("dateISO must be YYYY-MM-DD");
+    }
+
+    const [drivers, rows, duration, schedules] = await Promise.all([
+      UserService.listUsersByRole("driver", 1000),
+      TransferService.findTransfers({
+        fromDateISO: shiftDateISO(dateISO, -1),
+        toDateISO: shiftDateISO(dateISO, 1)
+      }),
+      DispatchService.durations(),
+      ScheduleService.schedulesFor(undefined, {
+        fromDateISO: dateISO,
+        toDateISO: dateISO
+      })
+    ]);
+    const scheduleOf = (driverId: string) =>
+      schedules.find((s) => s.driverId === driverId) ?? {
+        driverId,
+        shifts: [],
+        absences: []
+      };
+
+    const ride = (row: TransferRow): DispatchRide => {
+      const minutes = duration(row.pickup, row.dropoff);
+      const w = rideWindow(row, minutes);
+      return {
+        transfer: row,
+        startsAtISO: w?.startsAt.toISOString() ?? null,
+        endsAtISO: w?.endsAt.toISOString() ?? null,
+        durationMinutes: minutes,
+        driverUnavailable: row.driverId
+          ? unavailability(
+              scheduleOf(row.driverId),
+              row.rideDateISO,
+              row.rideTime
+            )?.reason ?? null
+          : null
+      };
+    };
+    const availability = (driverId: string) => {
+      const schedule = scheduleOf(driverId);
+      return {
+        absence: absenceOn(schedule.absences, dateISO)?.kind ?? null,
+        shifts: schedule.shifts
+          .filter(
+            (s) =>
+              s.weekday === isoWeekday(dateISO) &&
+              (!s.validFrom || s.validFrom <= dateISO) &&
+              (!s.validUntil || dateISO <= s.validUntil)
+          )
+          .map((s) => ({ startTime: s.startTime, endTime: s.endTime }))
+      };
+    };
+
+    const active = rows.filter((r) => DRIVER_ACTIVE_STATES.includes(r.state));
+    const board = new Map<string, DispatchBoardDriver>();
+    for (const d of drivers) {
+      board.set(d.id, {
+        driverId: d.id,
+        driverName:
+          d.human?.profile?.displayName ||
+          `${d.human?.profile?.firstName ?? ""} ${
+            d.human?.profile?.lastName ?? ""
+          }`.trim() ||
+          null,
+        hasDriverRole: true,
+        ...availability(d.id),
+        rides: [],
+        conflicts: []
+      });
+    }
+
+    const unassigned: DispatchRide[] = [];
+    for (const row of rows) {
+      if (row.state === "canceled" || row.state === "terminated") continue;
+      if (row.rideDateISO.slice(0, 10) !== dateISO) continue;
+
+      if (!row.driverId) {
+        unassigned.push(ride(row));
+        continue;
+      }
+      let entry = board.get(row.driverId);
+      if (!entry) {
+        entry = {
+          driverId: row.driverId,
+          driverName: row.driverName ?? null,
+          hasDriverRole: false,
+          ...availability(row.driverId),
+          rides: [],
+          conflicts: []
+        };
+        board.set(row.driverId, entry);
+      }
+      entry.rides.push(ride(row));
+    }
+
+    for (const entry of board.values()) {
+      const shown = new Set(entry.rides.map((r) => r.transfer.transferId));
+      entry.conflicts = DispatchService.conflictsOf(
+        active.filter((r) => r.driverId === entry.driverId),
+        duration
+      ).filter(
+        (c) => shown.has(c.transferId) || shown.has(c.otherTransferId)
+      );
+    }
+
+    return {
+      dateISO,
+      drivers: [...board.values()],
+      unassigned
+    };
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:assign")
+  static async setRideDurationEstimate(
+    pickup: string,
+    dropoff: string,
+    minutes: number
+  ) {
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      throw new InvalidInputError("minutes must be a positive integer");
+    }
+    return D1Service.upsertRideDurationEstimate(
+      normalizePlace(pickup),
+      normalizePlace(dropoff),
+      minutes
+    );
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async getRideDurationEstimates() {
+    return D1Service.listRideDurationEstimates();
+  }
+
+  /**
+   * Active rides of `driverId` that overlap with `row`. Used by
+   * TransferService.assignDriver before assigning.
+   */
+  static async driverConflicts(
+    driverId: string,
+    row: TransferRow
+  ): Promise<RideConflict[]> {
+    return DispatchService.conflictsWith(row, { driverId }, (r) =>
+      r.driverId === driverId
+    );
+  }
+
+  /**
+   * Active rides using `vehicleId` that overlap with `row`. Used by
+   * TransferService.assignVehicle.
+   */
+  static async vehicleConflicts(
+    vehicleId: string,
+    row: TransferRow
+  ): Promise<RideConflict[]> {
+    return DispatchService.conflictsWith(row, {}, (r) =>
+      r.vehicleId === vehicleId
+    );
+  }
+
+  private static async conflictsWith(
+    row: TransferRow,
+    filter: { driverId?: string },
+    sharesResource: (other: TransferRow) => boolean
+  ): Promise<RideConflict[]> {
+    const [rows, duration] = await Promise.all([
+      TransferService.findTransfers({
+        ...filter,
+        fromDateISO: shiftDateISO(row.rideDateISO.slice(0, 10), -1),
+        toDateISO: shiftDateISO(row.rideDateISO.slice(0, 10), 1)
+      }),
+      DispatchService.durations()
+    ]);
+
+    const others = rows.filter(
+      (r) =>
+        r.transferId !== row.transferId &&
+        DRIVER_ACTIVE_STATES.includes(r.state) &&
+        sharesResource(r)
+    );
+    return DispatchService.conflictsOf([row, ...others], duration).filter(
+      (c) =>
+        c.transferId === row.transferId ||
+        c.otherTransferId === row.transferId
+    );
+  }
+
+  private static async durations() {
+    return durationLookup(await D1Service.listRideDurationEstimates());
+  }
+
+  private static conflictsOf(
+    rows: TransferRow[],
+    duration: (pickup: string, dropoff: string) => number
+  ): RideConflict[] {
+    const windows = rows
+      .map((r) => rideWindow(r, duration(r.pickup, r.dropoff)))
+      .filter((w): w is RideWindow => !!w);
+    return findConflicts(windows);
+  }
+}
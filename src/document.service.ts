@@ -0,0 +1,347 @@
+// src/document.service.ts
+import { getEnv, requireAuth } from "@getcronit/pylon";
+import { AuthorizationError, InvalidInputError } from "./errors/general.errors";
+import {
+  assertPermission,
+  currentUserId,
+  requirePermission
+} from "./utils/authorization";
+import { BillingService } from "./billing.service";
+import { InvoiceService } from "./invoice.service";
+import { NotificationService } from "./notification.service";
+import { TransferService } from "./transfer.service";
+import {
+  billingTotals,
+  BillingRules,
+  germanMonthLabel,
+  isVoucherPayment,
+  statementDateISO
+} from "./utils/billingRules";
+import {
+  bytesToBase64,
+  documentStoreFromEnv,
+  signedDocumentUrl,
+  StoredDocument,
+  verifyDocumentSignature
+} from "./utils/documentStore";
+import { formatAmount, formatRideDate } from "./utils/notificationTemplates";
+import {
+  MONTHLY_STATEMENT_COLUMNS,
+  percentLabel,
+  renderStatementPdf,
+  statementTotals
+} from "./utils/statementPdf";
+
+export type DocumentDownload = {
+  key: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  url: string | null; // signed link, if documents are stored and signed
+  expiresAt: string | null;
+  base64: string | null; // the PDF itself otherwise, or when asked for
+};
+
+type InvoiceRecord = Awaited<ReturnType<typeof InvoiceService.getInvoice>>;
+
+const MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+const PDF = "application/pdf";
+const DOWNLOAD_LINK_SECONDS = 15 * 60;
+// Links in "statement is ready" notifications
+const STATEMENT_LINK_SECONDS = 30 * 24 * 60 * 60;
+
+const eur = (v: number | undefined) => formatAmount(v, "de-AT");
+const day = (dateISO: string) => formatRideDate(dateISO, "de-AT");
+
+function statementKey(customerId: string, yyyymm: string) {
+  return `statements/${customerId}/${yyyymm}.pdf`;
+}
+
+function invoicePdf(invoice: InvoiceRecord): Uint8Array {
+  const rules: BillingRules = {
+    transportVatPercent: invoice.transportVatPercent,
+    extrasVatPercent: invoice.extrasVatPercent,
+    earlyPaymentDiscountPercent: invoice.earlyPaymentDiscountPercent,
+    voucherPayment: invoice.voucherPayment
+  };
+  const totals = billingTotals(
+    invoice.lines.map((l) => ({
+      amountEUR: l.amountEUR,
+      kind: l.kind === "extra" ? ("extra" as const) : ("transport" as const),
+      voucher: l.voucher
+    })),
+    rules
+  );
+
+  const label = invoice.kind === "creditNote" ? "GUTSCHRIFT" : "RECHNUNG";
+  const details = [
+    ...(invoice.issueDateISO
+      ? [`Rechnungsdatum: ${day(invoice.issueDateISO)}`]
+      : []),
+    `Leistungszeitraum: ${day(invoice.periodFrom)} – ${day(
+      invoice.periodUntil
+    )}`,
+    ...(invoice.note ? [invoice.note] : []),
+    ...(invoice.status === "canceled"
+      ? [`Storniert: ${invoice.cancelReason ?? ""}`]
+      : [])
+  ];
+
+  return renderStatementPdf({
+    title:
+      `${label} ${invoice.number ?? "(ENTWURF)"}` +
+      (invoice.status === "canceled" ? " – STORNIERT" : ""),
+    customerName: invoice.customerName ?? "",
+    customerNumber: invoice.customerId,
+    details,
+    columns: [
+      { label: "Nr.", width: 40, align: "center" },
+      { label: "Datum", width: 100 },
+      { label: "Leistung", width: 700 },
+      { label: "MwSt", width: 80, align: "right" },
+      { label: "Betrag", width: 130, align: "right" }
+    ],
+    rows: invoice.lines.map((l) => [
+      String(l.position),
+      l.rideDateISO ? day(l.rideDateISO) : "",
+      l.voucher ? `${l.description} (Gutschein)` : l.description,
+      percentLabel(l.vatPercent),
+      eur(l.amountEUR)
+    ]),
+    totals: statementTotals(totals, rules),
+    amountColumn: 4
+  });
+}
+
+export class DocumentService {
+  /**
+   * Monthly statement PDF ("ABRECHNUNG") of the completed rides, laid out
+   * like the monthly sheet. Customers get their own, billing staff anyone's.
+   */
+  @requireAuth()
+  static async getMonthlyStatementPdf(
+    yyyymm: string,
+    customerId?: string,
+    inline?: boolean
+  ): Promise<DocumentDownload> {
+    if (!MONTH.test(yyyymm)) {
+      throw new InvalidInputError("yyyymm must be YYYY-MM");
+    }
+    const userId = currentUserId();
+    if (!userId) throw new AuthorizationError("Authentication required");
+    const customer = customerId || userId;
+    if (customer !== userId) await assertPermission("billing:manage");
+
+    return DocumentService.deliver(
+      statementKey(customer, yyyymm),
+      await DocumentService.monthlyStatement(customer, yyyymm),
+      inline
+    );
+  }
+
+  /**
+   * Tell the customer their statement for `yyyymm` is ready: a "statement"
+   * notification, so web push first and email for customers without it.
+   * It links to the PDF when download links can be signed.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async sendMonthlyStatement(customerId: string, yyyymm: string) {
+    if (!MONTH.test(yyyymm)) {
+      throw new InvalidInputError("yyyymm must be YYYY-MM");
+    }
+
+    const key = statementKey(customerId, yyyymm);
+    const doc = await DocumentService.monthlyStatement(customerId, yyyymm);
+    const env: any = getEnv();
+    const store = documentStoreFromEnv(env);
+    if (store) await store.put(key, doc);
+    const link = store
+      ? await DocumentService.signedLink(env, key, STATEMENT_LINK_SECONDS)
+      : null;
+
+    return NotificationService.sendNotificationToUser(
+      customerId,
+      {
+        title: `Ihre Abrechnung ${germanMonthLabel(yyyymm)}`,
+        body: link
+          ? "Ihre Abrechnung steht als PDF zum Download bereit."
+          : "Ihre Abrechnung steht im Kundenbereich bereit.",
+        data: { yyyymm, ...(link ? { url: link.url } : {}) }
+      },
+      undefined,
+      { category: "statement" }
+    );
+  }
+
+  private static async monthlyStatement(
+    customer: string,
+    yyyymm: string
+  ): Promise<StoredDocument> {
+    const untilISO = statementDateISO(yyyymm);
+    const [rules, found] = await Promise.all([
+      BillingService.rulesFor(customer, untilISO),
+      TransferService.findTransfers({
+        customerId: customer,
+        state: "complete",
+        fromDateISO: `${yyyymm}-01`,
+        toDateISO: untilISO
+      })
+    ]);
+    const rows = found.sort(
+      (a, b) =>
+        a.rideDateISO.localeCompare(b.rideDateISO) ||
+        a.rideTime.localeCompare(b.rideTime)
+    );
+
+    const totals = billingTotals(
+      rows.map((r) => ({
+        amountEUR: r.amountEUR ?? 0,
+        voucher: isVoucherPayment(r.payment, rules)
+      })),
+      rules
+    );
+    const bytes = renderStatementPdf({
+      title: `ABRECHNUNG: ${germanMonthLabel(yyyymm)}`,
+      customerName: rows[rows.length - 1]?.customerName ?? "",
+      customerNumber: customer,
+      columns: MONTHLY_STATEMENT_COLUMNS,
+      rows: rows.map((r, i) => [
+        String(i + 1),
+        day(r.rideDateISO),
+        r.rideTime,
+        r.pickup,
+        r.dropoff,
+        r.roomOrName ?? "",
+        r.vehicle ?? "",
+        eur(r.amountEUR),
+        r.payment ?? ""
+      ]),
+      totals: statementTotals(totals, rules),
+      amountColumn: 7
+    });
+
+    return { bytes, contentType: PDF, filename: `Abrechnung_${yyyymm}.pdf` };
+  }
+
+  /**
+   * PDF of an invoice or credit note, for whoever may see it (see
+   * InvoiceService.getInvoice). Issued documents are rendered once and
+   * then served from the store.
+   */
+  @requireAuth()
+  static async getInvoicePdf(
+    invoiceId: number,
+    inline?: boolean
+  ): Promise<DocumentDownload> {
+    const invoice = await InvoiceService.getInvoice(invoiceId);
+    const label = invoice.kind === "creditNote" ? "Gutschrift" : "Rechnung";
+
+    if (invoice.status === "draft") {
+      return DocumentService.deliver(
+        `invoices/draft-${invoice.id}.pdf`,
+        {
+          bytes: invoicePdf(invoice),
+          contentType: PDF,
+          filename: `${label}_Entwurf_${invoice.id}.pdf`
+        },
+        inline
+      );
+    }
+
+    const key = `invoices/${invoice.number}-${invoice.status}.pdf`;
+    const stored = await documentStoreFromEnv(getEnv())?.get(key);
+    return DocumentService.deliver(
+      key,
+      stored ?? {
+        bytes: invoicePdf(invoice),
+        contentType: PDF,
+        filename: `${label}_${invoice.number}.pdf`
+      },
+      inline,
+      !!stored
+    );
+  }
+
+  /**
+   * Response for GET /documents/:key (links from signedDocumentUrl). Not
+   * part of the GraphQL API; the signature is the authorization.
+   */
+  static async documentResponse(
+    env: any,
+    key: string,
+    expires: string | undefined,
+    signature: string | undefined
+  ): Promise<Response> {
+    const store = documentStoreFromEnv(env);
+    const secret = env?.DOCUMENT_URL_SECRET;
+    if (!store || !secret) return new Response("Not found", { status: 404 });
+
+    if (!(await verifyDocumentSignature(key, expires, signature, secret))) {
+      return new Response("Link invalid or expired", { status: 403 });
+    }
+    const doc = await store.get(key);
+    if (!doc) return new Response("Not found", { status: 404 });
+
+    return new Response(doc.bytes as Uint8Array<ArrayBuffer>, {
+      headers: {
+        "Content-Type": doc.contentType,
+        "Content-Disposition": `attachment; filename="${doc.filename}"`,
+        "Cache-Control": "private, no-store"
+      }
+    });
+  }
+
+  /**
+   * Store the document (if a store is configured) and answer with a signed
+   * link, or with the content when there is no store, no DOCUMENT_URL_SECRET
+   * or `inline` is requested.
+   */
+  private static async deliver(
+    key: string,
+    doc: StoredDocument,
+    inline?: boolean,
+    alreadyStored = false
+  ): Promise<DocumentDownload> {
+    const env: any = getEnv();
+    const store = documentStoreFromEnv(env);
+    if (store && !alreadyStored) await store.put(key, doc);
+
+    const result: DocumentDownload = {
+      key,
+      filename: doc.filename,
+      contentType: doc.contentType,
+      sizeBytes: doc.bytes.length,
+      url: null,
+      expiresAt: null,
+      base64: null
+    };
+
+    const link =
+      store && !inline
+        ? await DocumentService.signedLink(env, key, DOWNLOAD_LINK_SECONDS)
+        : null;
+    if (link) {
+      result.url = link.url;
+      result.expiresAt = link.expiresAt;
+    } else {
+      result.base64 = bytesToBase64(doc.bytes);
+    }
+    return result;
+  }
+
+  // Null without DOCUMENT_URL_SECRET
+  private static async signedLink(
+    env: any,
+    key: string,
+    seconds: number
+  ): Promise<{ url: string; expiresAt: string } | null> {
+    const secret = env?.DOCUMENT_URL_SECRET;
+    if (!secret) return null;
+    const expiresAt = new Date(Date.now() + seconds * 1000);
+    return {
+      url: await signedDocumentUrl(key, expiresAt, secret, env?.APP_URL),
+      expiresAt: expiresAt.toISOString()
+    };
+  }
+}
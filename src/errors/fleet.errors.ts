@@ -0,0 +1,25 @@
+// errors/fleet.errors.ts
+import { ServiceError } from "@getcronit/pylon";
+
+export class VehicleNotFoundError extends ServiceError {
+  constructor(id: string) {
+    const message = `Vehicle with ID '${id}' was not found.`;
+
+    super(message, {
+      statusCode: 404,
+      code: "VEHICLE_NOT_FOUND",
+    });
+  }
+}
+
+export class VehiclePlateTakenError extends ServiceError {
+  constructor(plate: string) {
+    const message = `A vehicle with plate '${plate}' already exists.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "VEHICLE_PLATE_TAKEN",
+      details: { plate },
+    });
+  }
+}
@@ -0,0 +1,25 @@
+// errors/invoice.errors.ts
+import { ServiceError } from "@getcronit/pylon";
+
+export class InvoiceNotFoundError extends ServiceError {
+  constructor(id: number) {
+    const message = `Invoice with ID '${id}' was not found.`;
+
+    super(message, {
+      statusCode: 404,
+      code: "INVOICE_NOT_FOUND",
+    });
+  }
+}
+
+export class InvoiceStatusError extends ServiceError {
+  constructor(id: number, status: string, expected: string) {
+    const message = `Invoice '${id}' is ${status}, this needs a ${expected} invoice. Issued invoices can't be changed, cancel them with a credit note instead.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "INVOICE_STATUS",
+      details: { id, status, expected },
+    });
+  }
+}
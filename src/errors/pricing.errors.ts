@@ -0,0 +1,14 @@
+// errors/pricing.errors.ts
+import { ServiceError } from "@getcronit/pylon";
+
+export class NoTariffError extends ServiceError {
+  constructor(pickup: string, dropoff: string) {
+    const message = `No tariff or contract rate for '${pickup}' → '${dropoff}'. Please ask dispatch for a price.`;
+
+    super(message, {
+      statusCode: 404,
+      code: "NO_TARIFF",
+      details: { pickup, dropoff },
+    });
+  }
+}
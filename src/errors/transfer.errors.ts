@@ -0,0 +1,78 @@
+// errors/transfer.errors.ts
+import { ServiceError } from "@getcronit/pylon";
+
+export class InvalidTransferTransitionError extends ServiceError {
+  constructor(from: string | null, to: string) {
+    const message = from
+      ? `Transfer cannot change from '${from}' to '${to}'.`
+      : `Transfer cannot be created in state '${to}'.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "INVALID_TRANSFER_TRANSITION",
+    });
+  }
+}
+
+export class TransferConflictError extends ServiceError {
+  constructor(transferId: string) {
+    const message = `Transfer '${transferId}' was changed concurrently. Please reload and try again.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "TRANSFER_CONFLICT",
+    });
+  }
+}
+
+export class DriverDoubleBookedError extends ServiceError {
+  constructor(driverId: string, conflictingTransferIds: string[]) {
+    const message = `Driver '${driverId}' is already booked at that time (${conflictingTransferIds.join(
+      ", "
+    )}). Assign with force to override.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "DRIVER_DOUBLE_BOOKED",
+      details: { driverId, conflictingTransferIds },
+    });
+  }
+}
+
+export class DriverUnavailableError extends ServiceError {
+  constructor(driverId: string, reason: string) {
+    const message = `Driver '${driverId}' is not available for this ride (${reason}). Assign with force to override.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "DRIVER_UNAVAILABLE",
+      details: { driverId, reason },
+    });
+  }
+}
+
+export class VehicleDoubleBookedError extends ServiceError {
+  constructor(vehicleId: string, conflictingTransferIds: string[]) {
+    const message = `Vehicle '${vehicleId}' is already in use at that time (${conflictingTransferIds.join(
+      ", "
+    )}). Assign with force to override.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "VEHICLE_DOUBLE_BOOKED",
+      details: { vehicleId, conflictingTransferIds },
+    });
+  }
+}
+
+export class VehicleClassMismatchError extends ServiceError {
+  constructor(vehicleId: string, booked: string, actual: string) {
+    const message = `Vehicle '${vehicleId}' is a ${actual}, the ride was booked as ${booked}. Assign with force to override.`;
+
+    super(message, {
+      statusCode: 409,
+      code: "VEHICLE_CLASS_MISMATCH",
+      details: { vehicleId, booked, actual },
+    });
+  }
+}
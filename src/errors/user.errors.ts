@@ -21,4 +21,15 @@ export class EmailOrUsernameAlreadyExistsError extends ServiceError {
       statusCode: 403,
     });
   }
-}
\ No newline at end of file
+}
+
+export class UserNotActiveError extends ServiceError {
+  constructor(id: string, state: string) {
+    const message = `User with ID '${id}' is not active (${state}).`;
+
+    super(message, {
+      statusCode: 403,
+      code: "USER_NOT_ACTIVE",
+    });
+  }
+}
@@ -0,0 +1,108 @@
+// src/fleet.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { InvalidInputError } from "./errors/general.errors";
+import {
+  VehicleNotFoundError,
+  VehiclePlateTakenError
+} from "./errors/fleet.errors";
+import { requirePermission } from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import {
+  normalizePlate,
+  VEHICLE_CLASSES,
+  VehicleClass
+} from "./utils/vehicleClasses";
+
+export type VehicleInput = {
+  plate: string;
+  name?: string;
+  vehicleClass: VehicleClass;
+  seats: number;
+  luggage: number;
+};
+
+export type VehiclePatch = Partial<VehicleInput> & { active?: boolean };
+
+const PLATE = /^[A-ZÄÖÜ0-9-]{2,12}$/;
+
+function assertCount(value: number | undefined, label: string, min: number) {
+  if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+    throw new InvalidInputError(
+      `${label} must be an integer of at least ${min}`
+    );
+  }
+}
+
+function validated(input: VehiclePatch): VehiclePatch {
+  const plate =
+    input.plate !== undefined ? normalizePlate(input.plate) : undefined;
+  if (plate !== undefined && !PLATE.test(plate)) {
+    throw new InvalidInputError(`Invalid plate '${input.plate}'`);
+  }
+  if (
+    input.vehicleClass !== undefined &&
+    !VEHICLE_CLASSES.includes(input.vehicleClass)
+  ) {
+    throw new InvalidInputError(
+      `vehicleClass must be one of ${VEHICLE_CLASSES.join(", ")}`
+    );
+  }
+  assertCount(input.seats, "seats", 1);
+  assertCount(input.luggage, "luggage", 0);
+
+  return {
+    ...input,
+    ...(plate !== undefined ? { plate } : {}),
+    ...(input.name !== undefined ? { name: input.name.trim() } : {})
+  };
+}
+
+export class FleetService {
+  /**
+   * The fleet, by class and plate. Inactive vehicles only on request.
+   */
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async getVehicles(
+    vehicleClass?: VehicleClass,
+    includeInactive?: boolean
+  ) {
+    return D1Service.listVehicles({
+      activeOnly: !includeInactive,
+      vehicleClass
+    });
+  }
+
+  @requireAuth()
+  @requirePermission("fleet:manage")
+  static async createVehicle(input: VehicleInput) {
+    const data = validated(input) as VehicleInput;
+    if (await D1Service.findVehicleByPlate(data.plate)) {
+      throw new VehiclePlateTakenError(data.plate);
+    }
+    return D1Service.createVehicle({ ...data, name: data.name || null });
+  }
+
+  /**
+   * Change a vehicle or retire it (`active: false`). Rides it already drove
+   * keep their reference and sheet name.
+   */
+  @requireAuth()
+  @requirePermission("fleet:manage")
+  static async updateVehicle(vehicleId: string, patch: VehiclePatch) {
+    const data = validated(patch);
+    if (data.plate) {
+      const other = await D1Service.findVehicleByPlate(data.plate);
+      if (other && other.id !== vehicleId) {
+        throw new VehiclePlateTakenError(data.plate);
+      }
+    }
+
+    const updated = await D1Service.updateVehicle(vehicleId, {
+      ...data,
+      ...(data.name !== undefined ? { name: data.name || null } : {})
+    });
+    if (!updated) throw new VehicleNotFoundError(vehicleId);
+    return (await D1Service.findVehicle(vehicleId))!;
+  }
+}
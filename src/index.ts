@@ -5,6 +5,19 @@ import { UserService } from "./user.service";
 import { TransferService } from "./transfer.service";
 import { D1Service } from "./d1.service";
 import { NotificationService } from "./notification.service";
+import { ReconcileService } from "./reconcile.service";
+import { ReminderService } from "./reminder.service";
+import { BroadcastService } from "./broadcast.service";
+import { DispatchService } from "./dispatch.service";
+import { ScheduleService } from "./schedule.service";
+import { SuggestionService } from "./suggestion.service";
+import { FleetService } from "./fleet.service";
+import { PricingService } from "./pricing.service";
+import { RateCardService } from "./rateCard.service";
+import { BillingService } from "./billing.service";
+import { InvoiceService } from "./invoice.service";
+import { DocumentService } from "./document.service";
+import { scheduled } from "./scheduled";
 
 export const graphql = {
   Query: {
@@ -20,24 +33,51 @@ export const graphql = {
     getProjectRoles: UserService.listProjectRoles,
 
     // ----------------------------
-    // Transfers (Sheets) reads
+    // Transfers (D1) reads
     // ----------------------------
     getTransfer: TransferService.getTransfer,
+    transferHistory: TransferService.transferHistory,
     getAllTransfers: TransferService.listTransfers,
     getCustomerBookings: TransferService.getCustomerBookings,
     getDriverTransfers: TransferService.getDriverTransfers,
     getDriverRevenue: TransferService.getDriverRevenue,
+    dispatchBoard: DispatchService.dispatchBoard,
+    suggestDrivers: SuggestionService.suggestDrivers,
+    getRideDurationEstimates: DispatchService.getRideDurationEstimates,
+    getDriverSchedule: ScheduleService.getDriverSchedule,
+    getDriverSchedules: ScheduleService.getDriverSchedules,
+    getVehicles: FleetService.getVehicles,
+    quoteTransfer: PricingService.quoteTransfer,
+    getPricingRules: PricingService.getPricingRules,
+    getTariffs: PricingService.getTariffs,
+    getTariffZones: PricingService.getTariffZones,
+    getRateCards: RateCardService.getRateCards,
+    getBillingRules: BillingService.getBillingRules,
+    effectiveBillingRules: BillingService.effectiveBillingRules,
+    getInvoices: InvoiceService.getInvoices,
+    getInvoice: InvoiceService.getInvoice,
+    getMyInvoices: InvoiceService.getMyInvoices,
+    getMonthlyStatementPdf: DocumentService.getMonthlyStatementPdf,
+    getInvoicePdf: DocumentService.getInvoicePdf,
 
     // ----------------------------
     // D1 / Prisma reads
     // ----------------------------
     getD1AllTransfers: D1Service.getD1AllTransfers,
+    getSheetsOutbox: D1Service.getSheetsOutbox,
 
     // ----------------------------
     // Notifications
     // ----------------------------
     getCurrentUserPushSubscriptions:
-      NotificationService.getCurrentUserPushSubscriptions
+      NotificationService.getCurrentUserPushSubscriptions,
+    getCurrentUserNotificationPreferences:
+      NotificationService.getCurrentUserNotificationPreferences,
+    getCurrentUserNotifications: NotificationService.getCurrentUserNotifications,
+    getCurrentUserUnreadNotificationCount:
+      NotificationService.getCurrentUserUnreadNotificationCount,
+    getBroadcasts: BroadcastService.getBroadcasts,
+    getBroadcastDeliveries: BroadcastService.getBroadcastDeliveries
   },
 
   Mutation: {
@@ -69,12 +109,38 @@ export const graphql = {
     removeProjectRole: UserService.removeProjectRole,
 
     // ----------------------------
-    // Transfers (Sheets) writes
+    // Transfers writes (D1 first, projected to Sheets)
     // ----------------------------
     createTransfer: TransferService.createTransfer,
     bookTransfer: TransferService.bookTransfer,
     assignDriver: TransferService.assignDriver,
+    assignVehicle: TransferService.assignVehicle,
     assignPrice: TransferService.assignPrice,
+    autoAssignDrivers: SuggestionService.autoAssignDrivers,
+    setRideDurationEstimate: DispatchService.setRideDurationEstimate,
+    addDriverShift: ScheduleService.addDriverShift,
+    removeDriverShift: ScheduleService.removeDriverShift,
+    addDriverAbsence: ScheduleService.addDriverAbsence,
+    removeDriverAbsence: ScheduleService.removeDriverAbsence,
+    createVehicle: FleetService.createVehicle,
+    updateVehicle: FleetService.updateVehicle,
+    setTariff: PricingService.setTariff,
+    removeTariff: PricingService.removeTariff,
+    setTariffZone: PricingService.setTariffZone,
+    removeTariffZone: PricingService.removeTariffZone,
+    publishRateCard: RateCardService.publishRateCard,
+    setRateCardValidUntil: RateCardService.setRateCardValidUntil,
+    importRouteRateCards: RateCardService.importRouteRateCards,
+    addBillingRule: BillingService.addBillingRule,
+    removeBillingRule: BillingService.removeBillingRule,
+    createInvoiceDraft: InvoiceService.createInvoiceDraft,
+    refreshInvoiceDraft: InvoiceService.refreshInvoiceDraft,
+    addInvoiceExtra: InvoiceService.addInvoiceExtra,
+    deleteInvoiceDraft: InvoiceService.deleteInvoiceDraft,
+    issueInvoice: InvoiceService.issueInvoice,
+    cancelInvoice: InvoiceService.cancelInvoice,
+    createCreditNoteDraft: InvoiceService.createCreditNoteDraft,
+    sendMonthlyStatement: DocumentService.sendMonthlyStatement,
 
     markConfirmed: TransferService.markConfirmed,
     cancelTransfer: TransferService.cancelTransfer,
@@ -82,11 +148,28 @@ export const graphql = {
     markCompleted: TransferService.markCompleted,
 
     syncMonthlyTransfers: TransferService.syncMonthlySheet,
+    resyncTransferToSheets: TransferService.resyncTransferToSheets,
+    processSheetsOutbox: TransferService.processSheetsOutbox,
+
+    // ----------------------------
+    // Driver self-service
+    // ----------------------------
+    acceptAssignment: TransferService.acceptAssignment,
+    declineAssignment: TransferService.declineAssignment,
+    startRide: TransferService.startRide,
+    arriveAtPickup: TransferService.arriveAtPickup,
+    finishRide: TransferService.finishRide,
 
     // ----------------------------
     // D1 / Prisma writes
     // ----------------------------
     createD1Transfer: D1Service.createD1Transfer,
+    requeueSheetsOutboxEntry: D1Service.requeueSheetsOutboxEntry,
+
+    // ----------------------------
+    // Sheets ↔ D1 reconciliation
+    // ----------------------------
+    reconcileTransfers: ReconcileService.reconcileTransfers,
 
     // ----------------------------
     // Notifications
@@ -97,11 +180,37 @@ export const graphql = {
       NotificationService.removeCurrentUserPushSubscription,
     clearCurrentUserPushSubscriptions:
       NotificationService.clearCurrentUserPushSubscriptions,
+    updateCurrentUserNotificationPreferences:
+      NotificationService.updateCurrentUserNotificationPreferences,
+    markCurrentUserNotificationsRead:
+      NotificationService.markCurrentUserNotificationsRead,
+    markAllCurrentUserNotificationsRead:
+      NotificationService.markAllCurrentUserNotificationsRead,
+    dismissCurrentUserNotifications:
+      NotificationService.dismissCurrentUserNotifications,
     sendTestNotificationToCurrentUser:
-      NotificationService.sendTestNotificationToCurrentUser
+      NotificationService.sendTestNotificationToCurrentUser,
+    migratePushSubscriptionsToD1:
+      NotificationService.migratePushSubscriptionsToD1,
+    sendRideReminders: ReminderService.sendRideReminders,
+    broadcastNotification: BroadcastService.broadcastNotification,
+    cancelBroadcast: BroadcastService.cancelBroadcast
   }
 };
 
 app.use("*", auth.initialize());
 
-export default app;
+// Signed download links for generated PDFs (DocumentService)
+app.get("/documents/:key{.+}", (c) =>
+  DocumentService.documentResponse(
+    c.env,
+    c.req.param("key"),
+    c.req.query("expires"),
+    c.req.query("signature")
+  )
+);
+
+export default {
+  fetch: app.fetch,
+  scheduled
+};
@@ -0,0 +1,480 @@
+// src/invoice.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { AuthorizationError, InvalidInputError } from "./errors/general.errors";
+import {
+  InvoiceNotFoundError,
+  InvoiceStatusError
+} from "./errors/invoice.errors";
+import {
+  assertPermission,
+  currentUserId,
+  requirePermission
+} from "./utils/authorization";
+import {
+  D1InvoiceHeader,
+  D1InvoiceLineInput,
+  D1InvoiceStatus,
+  D1Service
+} from "./d1.service";
+import { BillingService } from "./billing.service";
+import { TransferRow, TransferService } from "./transfer.service";
+import {
+  billingTotals,
+  BillingRules,
+  isVoucherPayment
+} from "./utils/billingRules";
+import { formatRideDate } from "./utils/notificationTemplates";
+import { roundCents } from "./utils/pricing";
+import { localDateISO } from "./utils/rideReminders";
+
+type InvoiceRecord = NonNullable<
+  Awaited<ReturnType<typeof D1Service.findInvoice>>
+>;
+
+const DATE_ISO = /^\d{4}-\d{2}-\d{2}$/;
+
+function rulesOf(invoice: InvoiceRecord): BillingRules {
+  return {
+    transportVatPercent: invoice.transportVatPercent,
+    extrasVatPercent: invoice.extrasVatPercent,
+    earlyPaymentDiscountPercent: invoice.earlyPaymentDiscountPercent,
+    voucherPayment: invoice.voucherPayment
+  };
+}
+
+function header(
+  rules: BillingRules,
+  lines: D1InvoiceLineInput[],
+  note?: string | null
+): D1InvoiceHeader {
+  const totals = billingTotals(lines, rules);
+  return {
+    ...rules,
+    sumEUR: totals.sumEUR,
+    voucherEUR: totals.voucherEUR,
+    netEUR: totals.netEUR,
+    vatEUR: totals.vatEUR,
+    grossEUR: totals.grossEUR,
+    discountedGrossEUR: totals.discountedGrossEUR,
+    ...(note !== undefined ? { note } : {})
+  };
+}
+
+function rideLine(
+  row: TransferRow,
+  rules: BillingRules
+): Omit<D1InvoiceLineInput, "position"> {
+  return {
+    kind: "transport",
+    transferId: row.transferId,
+    rideDateISO: row.rideDateISO.slice(0, 10),
+    description:
+      `${formatRideDate(row.rideDateISO, "de-AT")} ${row.rideTime} ` +
+      `${row.pickup} → ${row.dropoff}` +
+      (row.roomOrName ? ` (${row.roomOrName})` : ""),
+    amountEUR: roundCents(row.amountEUR ?? 0),
+    vatPercent: rules.transportVatPercent,
+    voucher: isVoucherPayment(row.payment, rules)
+  };
+}
+
+// Stored line back to an input line (kind is a plain string in D1)
+function storedLine(
+  l: InvoiceRecord["lines"][number]
+): Omit<D1InvoiceLineInput, "position"> {
+  return {
+    kind: l.kind === "extra" ? "extra" : "transport",
+    transferId: l.transferId,
+    rideDateISO: l.rideDateISO,
+    description: l.description,
+    amountEUR: l.amountEUR,
+    vatPercent: l.vatPercent,
+    voucher: l.voucher
+  };
+}
+
+function numbered(
+  lines: Omit<D1InvoiceLineInput, "position">[]
+): D1InvoiceLineInput[] {
+  return lines.map((l, i) => ({ ...l, position: i + 1 }));
+}
+
+function assertStatus(
+  invoice: InvoiceRecord,
+  status: D1InvoiceStatus,
+  kind: "invoice" | "creditNote" | null = null
+) {
+  if (invoice.status !== status || (kind && invoice.kind !== kind)) {
+    throw new InvoiceStatusError(
+      invoice.id,
+      invoice.status,
+      kind ? `${status} ${kind}` : status
+    );
+  }
+}
+
+async function loadInvoiceOrThrow(invoiceId: number): Promise<InvoiceRecord> {
+  const invoice = await D1Service.findInvoice(invoiceId);
+  if (!invoice) throw new InvoiceNotFoundError(invoiceId);
+  return invoice;
+}
+
+export class InvoiceService {
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async getInvoices(customerId?: string, status?: D1InvoiceStatus) {
+    return D1Service.listInvoices({ customerId, status });
+  }
+
+  /**
+   * Billing staff see every invoice, customers their own issued ones.
+   */
+  @requireAuth()
+  static async getInvoice(invoiceId: number) {
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    if (invoice.customerId !== currentUserId() || invoice.status === "draft") {
+      await assertPermission("billing:manage");
+    }
+    return invoice;
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:book")
+  static async getMyInvoices() {
+    const userId = currentUserId();
+    if (!userId) throw new AuthorizationError("Authentication required");
+    return D1Service.listInvoices({ customerId: userId, excludeDrafts: true });
+  }
+
+  /**
+   * Draft from the customer's completed, not yet invoiced rides in the
+   * period, with the billing rules in force on `periodUntil`.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async createInvoiceDraft(
+    customerId: string,
+    periodFrom: string,
+    periodUntil: string,
+    note?: string
+  ) {
+    if (!DATE_ISO.test(periodFrom) || !DATE_ISO.test(periodUntil)) {
+      throw new InvalidInputError(
+        "periodFrom / periodUntil must be YYYY-MM-DD"
+      );
+    }
+    if (periodUntil < periodFrom) {
+      throw new InvalidInputError("periodUntil is before periodFrom");
+    }
+
+    const rules = await BillingService.rulesFor(customerId, periodUntil);
+    const rows = await InvoiceService.unbilledRides(
+      customerId,
+      periodFrom,
+      periodUntil
+    );
+    if (!rows.length) {
+      throw new InvalidInputError(
+        "No completed, uninvoiced rides in this period"
+      );
+    }
+
+    const lines = numbered(rows.map((r) => rideLine(r, rules)));
+    return D1Service.createInvoice(
+      {
+        ...header(rules, lines, note?.trim() || null),
+        customerId,
+        customerName: rows[rows.length - 1].customerName ?? null,
+        periodFrom,
+        periodUntil,
+        createdBy: currentUserId()
+      },
+      lines
+    );
+  }
+
+  /**
+   * Rebuild a draft from the current rides and billing rules; extras are
+   * kept.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async refreshInvoiceDraft(invoiceId: number) {
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    assertStatus(invoice, "draft", "invoice");
+
+    const rules = await BillingService.rulesFor(
+      invoice.customerId,
+      invoice.periodUntil
+    );
+    const own = new Set(invoice.lines.map((l) => l.transferId));
+    const rows = await InvoiceService.unbilledRides(
+      invoice.customerId,
+      invoice.periodFrom,
+      invoice.periodUntil,
+      own
+    );
+    const extras = invoice.lines
+      .filter((l) => l.kind === "extra")
+      .map((l) => ({
+        kind: "extra" as const,
+        description: l.description,
+        amountEUR: l.amountEUR,
+        vatPercent: rules.extrasVatPercent,
+        voucher: false
+      }));
+
+    const lines = numbered([...rows.map((r) => rideLine(r, rules)), ...extras]);
+    await InvoiceService.replaceDraft(invoice, rules, lines);
+    return loadInvoiceOrThrow(invoiceId);
+  }
+
+  /**
+   * Non-transport line (e.g. drinks, parking), charged at the extras VAT
+   * rate.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async addInvoiceExtra(
+    invoiceId: number,
+    description: string,
+    amountEUR: number
+  ) {
+    if (!description?.trim()) {
+      throw new InvalidInputError("description is required");
+    }
+    if (!Number.isFinite(amountEUR) || amountEUR <= 0) {
+      throw new InvalidInputError("amountEUR must be positive");
+    }
+
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    assertStatus(invoice, "draft", "invoice");
+    const rules = rulesOf(invoice);
+
+    const lines = numbered([
+      ...invoice.lines.map(storedLine),
+      {
+        kind: "extra",
+        description: description.trim(),
+        amountEUR: roundCents(amountEUR),
+        vatPercent: rules.extrasVatPercent,
+        voucher: false
+      }
+    ]);
+    await InvoiceService.replaceDraft(invoice, rules, lines);
+    return loadInvoiceOrThrow(invoiceId);
+  }
+
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async deleteInvoiceDraft(invoiceId: number) {
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    assertStatus(invoice, "draft");
+    if (!(await D1Service.deleteDraftInvoice(invoiceId))) {
+      throw new InvoiceStatusError(invoiceId, "no longer a draft", "draft");
+    }
+    return true;
+  }
+
+  /**
+   * Number the draft (next "YYYY-NNNN" of the current year, no gaps) and
+   * freeze it. Works for invoices and credit notes.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async issueInvoice(invoiceId: number) {
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    assertStatus(invoice, "draft");
+    if (!invoice.lines.length) {
+      throw new InvalidInputError("An invoice needs at least one line");
+    }
+
+    const issueDateISO = localDateISO(new Date());
+    const issued = await D1Service.issueInvoice(invoiceId, {
+      year: Number(issueDateISO.slice(0, 4)),
+      issueDateISO,
+      issuedBy: currentUserId()
+    });
+    const current = await loadInvoiceOrThrow(invoiceId);
+    if (!issued) {
+      throw new InvoiceStatusError(invoiceId, current.status, "draft");
+    }
+    return current;
+  }
+
+  /**
+   * Storno: issue a credit note reversing what earlier credit notes (issued
+   * or draft) left open and mark the invoice canceled, together. Its rides
+   * can be invoiced again.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async cancelInvoice(invoiceId: number, reason: string) {
+    if (!reason?.trim()) throw new InvalidInputError("reason is required");
+
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    assertStatus(invoice, "issued", "invoice");
+
+    const credited = await InvoiceService.creditedTransferIds(invoiceId);
+    const open = invoice.lines.filter(
+      (l) => !l.transferId || !credited.has(l.transferId)
+    );
+    if (!open.length) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.number} is fully credited already`
+      );
+    }
+
+    const creditNote = await InvoiceService.createCreditNote(
+      invoice,
+      open,
+      `Storno zu Rechnung ${invoice.number}: ${reason.trim()}`
+    );
+
+    const issueDateISO = localDateISO(new Date());
+    const issued = await D1Service.issueInvoice(creditNote.id, {
+      year: Number(issueDateISO.slice(0, 4)),
+      issueDateISO,
+      issuedBy: currentUserId(),
+      cancel: { invoiceId, reason: reason.trim() }
+    });
+    if (!issued) {
+      await D1Service.deleteDraftInvoice(creditNote.id);
+      const current = await loadInvoiceOrThrow(invoiceId);
+      throw new InvoiceStatusError(invoiceId, current.status, "issued");
+    }
+    return loadInvoiceOrThrow(creditNote.id);
+  }
+
+  /**
+   * Draft credit note for some rides of an issued invoice (e.g. a ride
+   * that was billed by mistake); issue it with issueInvoice. The invoice
+   * itself stays issued. Rides on another credit note can't be credited
+   * again.
+   */
+  @requireAuth()
+  @requirePermission("billing:manage")
+  static async createCreditNoteDraft(
+    invoiceId: number,
+    transferIds: string[],
+    reason: string
+  ) {
+    if (!reason?.trim()) throw new InvalidInputError("reason is required");
+    if (!transferIds?.length) {
+      throw new InvalidInputError("transferIds must not be empty");
+    }
+
+    const invoice = await loadInvoiceOrThrow(invoiceId);
+    assertStatus(invoice, "issued", "invoice");
+
+    const lines = invoice.lines.filter(
+      (l) => l.transferId && transferIds.includes(l.transferId)
+    );
+    const missing = transferIds.filter(
+      (id) => !lines.some((l) => l.transferId === id)
+    );
+    if (missing.length) {
+      throw new InvalidInputError(
+        `Not on invoice ${invoice.number}: ${missing.join(", ")}`
+      );
+    }
+    const credited = await InvoiceService.creditedTransferIds(invoiceId);
+    const twice = transferIds.filter((id) => credited.has(id));
+    if (twice.length) {
+      throw new InvalidInputError(`Credited already: ${twice.join(", ")}`);
+    }
+
+    return InvoiceService.createCreditNote(
+      invoice,
+      lines,
+      `Gutschrift zu Rechnung ${invoice.number}: ${reason.trim()}`
+    );
+  }
+
+  private static async createCreditNote(
+    invoice: InvoiceRecord,
+    lines: InvoiceRecord["lines"],
+    note: string
+  ) {
+    const rules = rulesOf(invoice);
+    const negated = numbered(
+      lines.map((l) => ({ ...storedLine(l), amountEUR: -l.amountEUR }))
+    );
+
+    return D1Service.createInvoice(
+      {
+        ...header(rules, negated, note),
+        kind: "creditNote",
+        customerId: invoice.customerId,
+        customerName: invoice.customerName,
+        periodFrom: invoice.periodFrom,
+        periodUntil: invoice.periodUntil,
+        correctsInvoiceId: invoice.id,
+        createdBy: currentUserId()
+      },
+      negated
+    );
+  }
+
+  // Rides on draft or issued credit notes against the invoice
+  private static async creditedTransferIds(
+    invoiceId: number
+  ): Promise<Set<string>> {
+    const notes = await D1Service.listCreditNotesFor(invoiceId);
+    return new Set(
+      notes.flatMap((n) => n.lines.flatMap((l) => l.transferId ?? []))
+    );
+  }
+
+  private static async replaceDraft(
+    invoice: InvoiceRecord,
+    rules: BillingRules,
+    lines: D1InvoiceLineInput[]
+  ) {
+    const replaced = await D1Service.replaceDraftInvoice(
+      invoice.id,
+      header(rules, lines),
+      lines
+    );
+    if (!replaced) {
+      throw new InvoiceStatusError(invoice.id, "no longer a draft", "draft");
+    }
+  }
+
+  /**
+   * Completed rides of the period that are on no draft or issued invoice
+   * (apart from `alsoAllowed`), oldest first. Refuses rides without price.
+   */
+  private static async unbilledRides(
+    customerId: string,
+    periodFrom: string,
+    periodUntil: string,
+    alsoAllowed: Set<string | null> = new Set()
+  ): Promise<TransferRow[]> {
+    const [rows, billed] = await Promise.all([
+      TransferService.findTransfers({
+        customerId,
+        state: "complete",
+        fromDateISO: periodFrom,
+        toDateISO: periodUntil
+      }),
+      D1Service.billedTransferIds(customerId)
+    ]);
+
+    const unbilled = rows
+      .filter((r) => !billed.has(r.transferId) || alsoAllowed.has(r.transferId))
+      .sort(
+        (a, b) =>
+          a.rideDateISO.localeCompare(b.rideDateISO) ||
+          a.rideTime.localeCompare(b.rideTime)
+      );
+
+    const unpriced = unbilled.filter((r) => typeof r.amountEUR !== "number");
+    if (unpriced.length) {
+      throw new InvalidInputError(
+        `Rides without price: ${unpriced.map((r) => r.transferId).join(", ")}`
+      );
+    }
+    return unbilled;
+  }
+}
@@ -8,9 +8,154 @@ import {
 } from "./user.service";
 
 import { buildPushHTTPRequest } from "@pushforge/builder";
+import { D1Service } from "./d1.service";
+import { requirePermission } from "./utils/authorization";
+import type { TransferRow } from "./transfer.service";
+import {
+  TRANSFER_EVENT_AUDIENCES,
+  TRANSFER_EVENT_CATEGORY,
+  TransferAudience,
+  TransferEvent,
+  URGENT_TRANSFER_EVENTS,
+  transferDeepLink
+} from "./utils/transferNotifications";
+import {
+  NotificationLocale,
+  renderTemplate,
+  resolveLocale,
+  transferTemplateVars
+} from "./utils/notificationTemplates";
+import {
+  EmailMessage,
+  emailFromPayload,
+  emailTransportFromEnv
+} from "./utils/emailTransport";
+import {
+  isValidTime,
+  isValidTimezone,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NotificationCategory,
+  NotificationChannelName,
+  NotificationPreferences,
+  QuietHours,
+  quietHoursEndAt,
+  resolvePreferences
+} from "./utils/notificationPreferences";
 
 export type PushSubscription = UserPushSubscription;
 
+/**
+ * Outcome per endpoint:
+ * - gone / expired / invalid subscriptions are removed from the user
+ * - rateLimited endpoints are skipped until Retry-After has passed
+ */
+export type PushDeliveryStatus =
+  | "delivered"
+  | "gone"
+  | "expired"
+  | "invalid"
+  | "rateLimited"
+  | "failed";
+
+export interface PushDeliveryResult {
+  endpoint: string;
+  status: PushDeliveryStatus;
+  httpStatus?: number;
+  retryAfterSeconds?: number;
+  error?: string;
+}
+
+export interface PushDeliveryReport {
+  delivered: number;
+  failed: number;
+  pruned: number;
+  // Recipients reached by email instead of push
+  emailed: number;
+  // Recipients skipped by their preferences / held back for quiet hours
+  muted: number;
+  deferred: number;
+  results: PushDeliveryResult[];
+}
+
+/**
+ * How a push is filtered by the recipients' preferences. Urgent pushes
+ * ignore quiet hours, never muted categories.
+ */
+export interface PushSendOptions {
+  category?: NotificationCategory;
+  urgent?: boolean;
+  // false = no inbox copy (deferred pushes were stored when first sent)
+  inbox?: boolean;
+}
+
+export interface NotificationInboxPage {
+  items: {
+    id: number;
+    category: string;
+    title: string;
+    body: string | null;
+    data: string | null; // JSON
+    createdAt: Date;
+    readAt: Date | null;
+  }[];
+  unreadCount: number;
+  // Pass as beforeId for the next page; null = no more entries
+  nextBeforeId: number | null;
+}
+
+export type NotificationPreferencesInput = {
+  mutedCategories?: NotificationCategory[];
+  mutedDeviceIds?: string[];
+  channels?: NotificationChannelName[];
+  quietHours?: QuietHours | null;
+  timezone?: string;
+  language?: string | null;
+};
+
+type NotificationPayload = {
+  title: string;
+  body?: string;
+  icon?: string;
+  data?: any;
+  [key: string]: any;
+};
+
+/**
+ * Who a channel reached; everybody else falls through to the next channel
+ * in their preferences.
+ */
+interface ChannelDelivery {
+  reached: Set<string>;
+  delivered: number;
+  failed: number;
+  pruned: number;
+  results: PushDeliveryResult[];
+}
+
+interface NotificationChannel {
+  // Categories the channel carries; undefined = all
+  categories?: NotificationCategory[];
+  deliver(
+    userIds: string[],
+    payload: NotificationPayload,
+    prefs: Map<string, NotificationPreferences>
+  ): Promise<ChannelDelivery>;
+}
+
+// Email is only used for what customers expect in their inbox
+const EMAIL_CATEGORIES: NotificationCategory[] = ["booking", "statement"];
+
+// Statuses whose subscription can never succeed again
+const PRUNED_STATUSES: PushDeliveryStatus[] = ["gone", "expired", "invalid"];
+
+// Wait and retry once if a 429 asks for at most this long
+const MAX_INLINE_RETRY_AFTER_MS = 2_000;
+const DEFAULT_RETRY_AFTER_MS = 60_000;
+
+// Push service origin → epoch ms until which we don't send (per isolate)
+const rateLimitedUntil = new Map<string, number>();
+
 // ---------- VAPID / PushForge config helpers ----------
 
 /**
@@ -95,6 +240,27 @@ function buildMessageFromPayload(
   };
 }
 
+/**
+ * Retry-After is either delta-seconds or an HTTP date.
+ */
+function parseRetryAfterMs(header: string | null): number {
+  if (!header) return DEFAULT_RETRY_AFTER_MS;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? DEFAULT_RETRY_AFTER_MS
+    : Math.max(0, date - Date.now());
+}
+
+function endpointOrigin(endpoint: string): string {
+  try {
+    return new URL(endpoint).origin;
+  } catch {
+    return endpoint;
+  }
+}
+
 /**
  * Convert our stored subscription to the shape PushForge expects.
  */
@@ -122,10 +288,44 @@ function toPushForgeSubscription(sub: PushSubscription) {
   };
 }
 
+function fromD1Subscription(rec: {
+  endpoint: string;
+  p256dh: string | null;
+  auth: string | null;
+  expirationTime: Date | null;
+  deviceId: string | null;
+  userAgent: string | null;
+}): PushSubscription {
+  return {
+    endpoint: rec.endpoint,
+    expirationTime: rec.expirationTime ? rec.expirationTime.getTime() : null,
+    keys: {
+      p256dh: rec.p256dh ?? undefined,
+      auth: rec.auth ?? undefined
+    },
+    deviceId: rec.deviceId ?? undefined,
+    userAgent: rec.userAgent ?? undefined
+  };
+}
+
+function toD1Subscription(userId: string, sub: PushSubscription) {
+  return {
+    endpoint: sub.endpoint,
+    userId,
+    p256dh: sub.keys?.p256dh,
+    auth: sub.keys?.auth,
+    expirationTime: sub.expirationTime,
+    deviceId: sub.deviceId,
+    userAgent: sub.userAgent
+  };
+}
+
 /**
  * Service for managing web push notification subscriptions per user.
- * Subscriptions are stored as JSON array in user metadata via
- * UserService.getUserPushSubscriptions / setUserPushSubscriptions.
+ * Subscriptions live in the D1 PushSubscription table (one row per
+ * endpoint). The old ZITADEL "pushSubscriptions" metadata is only read by
+ * migratePushSubscriptionsToD1. `organizationId` arguments are kept for API
+ * compatibility and no longer used for storage.
  *
  * This service also acts as a push "service" by building HTTP requests
  * via @pushforge/builder and sending them directly to the push endpoints.
@@ -136,13 +336,14 @@ export class NotificationService {
   // --------------------------------------------------
 
   /**
-   * Get raw push subscriptions for a user (may be null if not set).
+   * Get push subscriptions for a user.
    */
   static async getUserPushSubscriptions(
     userId: string,
     organizationId?: string
   ): Promise<PushSubscription[] | null> {
-    return UserService.getUserPushSubscriptions(userId, organizationId);
+    const rows = await D1Service.listPushSubscriptions([userId]);
+    return rows.map(fromD1Subscription);
   }
 
   /**
@@ -153,41 +354,31 @@ export class NotificationService {
     subscriptions: PushSubscription[],
     organizationId?: string
   ) {
-    return UserService.setUserPushSubscriptions(
-      userId,
-      subscriptions,
-      organizationId
-    );
+    await D1Service.deleteUserPushSubscriptions(userId);
+    for (const sub of subscriptions) {
+      if (sub?.endpoint) {
+        await D1Service.upsertPushSubscription(toD1Subscription(userId, sub));
+      }
+    }
+    return NotificationService.getUserPushSubscriptions(userId);
   }
 
   /**
    * Add or update a push subscription for a user.
-   * Deduplicates by endpoint.
+   * The endpoint is the key, so re-subscribing updates the row.
    */
   static async addUserPushSubscription(
     userId: string,
     subscription: PushSubscription,
     organizationId?: string
   ): Promise<PushSubscription[]> {
-    const existing =
-      (await NotificationService.getUserPushSubscriptions(
-        userId,
-        organizationId
-      )) ?? [];
-
-    // Remove any previous subscription with the same endpoint
-    const filtered = existing.filter(
-      (s) => s && s.endpoint !== subscription.endpoint
-    );
-
-    const updated = [...filtered, subscription];
-    await NotificationService.setUserPushSubscriptions(
-      userId,
-      updated,
-      organizationId
+    if (!subscription?.endpoint) {
+      throw new InvalidInputError("subscription.endpoint is required");
+    }
+    await D1Service.upsertPushSubscription(
+      toD1Subscription(userId, subscription)
     );
-
-    return updated;
+    return (await NotificationService.getUserPushSubscriptions(userId)) ?? [];
   }
 
   /**
@@ -198,20 +389,8 @@ export class NotificationService {
     endpoint: string,
     organizationId?: string
   ): Promise<PushSubscription[]> {
-    const existing =
-      (await NotificationService.getUserPushSubscriptions(
-        userId,
-        organizationId
-      )) ?? [];
-
-    const updated = existing.filter((s) => s && s.endpoint !== endpoint);
-    await NotificationService.setUserPushSubscriptions(
-      userId,
-      updated,
-      organizationId
-    );
-
-    return updated;
+    await D1Service.deletePushSubscriptions([endpoint], userId);
+    return (await NotificationService.getUserPushSubscriptions(userId)) ?? [];
   }
 
   /**
@@ -221,11 +400,45 @@ export class NotificationService {
     userId: string,
     organizationId?: string
   ) {
-    return NotificationService.setUserPushSubscriptions(
-      userId,
-      [],
-      organizationId
-    );
+    await D1Service.deleteUserPushSubscriptions(userId);
+    return [] as PushSubscription[];
+  }
+
+  /**
+   * One-time copy of the legacy ZITADEL "pushSubscriptions" metadata into
+   * D1. Safe to re-run (upsert by endpoint); the metadata is left in place.
+   */
+  @requireAuth()
+  @requirePermission("users:manage")
+  static async migratePushSubscriptionsToD1(
+    limit = 1000,
+    organizationId?: string
+  ): Promise<{ users: number; migrated: number; failed: number }> {
+    const users = await UserService.listAllZitadelUsers(limit, organizationId);
+    let migrated = 0;
+    let failed = 0;
+
+    for (const user of users) {
+      try {
+        const subs =
+          (await UserService.getUserPushSubscriptions(
+            user.id,
+            organizationId
+          )) ?? [];
+        for (const sub of subs) {
+          if (!sub?.endpoint) continue;
+          await D1Service.upsertPushSubscription(
+            toD1Subscription(user.id, sub)
+          );
+          migrated++;
+        }
+      } catch (e) {
+        failed++;
+        console.error("Failed to migrate push subscriptions of", user.id, e);
+      }
+    }
+
+    return { users: users.length, migrated, failed };
   }
 
   // --------------------------------------------------
@@ -307,13 +520,249 @@ export class NotificationService {
   }
 
   // --------------------------------------------------
-  // Push sending (via @pushforge/builder)
+  // In-app inbox
   // --------------------------------------------------
 
   /**
-   * Send a push notification to all subscriptions of a user.
+   * Keep a copy for the in-app inbox, so nothing is lost when a device is
+   * offline or push permission was revoked. Never throws.
+   */
+  private static async storeInInbox(
+    userIds: string[],
+    category: NotificationCategory,
+    payload: NotificationPayload
+  ) {
+    try {
+      await D1Service.createNotifications(
+        userIds.map((userId) => ({
+          userId,
+          category,
+          title: payload.title,
+          body: payload.body,
+          data: payload.data
+        }))
+      );
+    } catch (e) {
+      console.error("Failed to store notifications in inbox", e);
+    }
+  }
+
+  @requireAuth()
+  static async getCurrentUserNotifications(args?: {
+    take?: number;
+    beforeId?: number;
+    unreadOnly?: boolean;
+  }): Promise<NotificationInboxPage> {
+    const userId = NotificationService.currentUserIdOrThrow();
+    const take = Math.min(Math.max(args?.take ?? 20, 1), 100);
+
+    const [rows, unreadCount] = await Promise.all([
+      D1Service.listNotifications(userId, { ...args, take: take + 1 }),
+      D1Service.countUnreadNotifications(userId)
+    ]);
+    const items = rows.slice(0, take).map((r) => ({
+      id: r.id,
+      category: r.category,
+      title: r.title,
+      body: r.body,
+      data: r.data,
+      createdAt: r.createdAt,
+      readAt: r.readAt
+    }));
+
+    return {
+      items,
+      unreadCount,
+      nextBeforeId: rows.length > take ? items[items.length - 1].id : null
+    };
+  }
+
+  @requireAuth()
+  static async getCurrentUserUnreadNotificationCount(): Promise<number> {
+    return D1Service.countUnreadNotifications(
+      NotificationService.currentUserIdOrThrow()
+    );
+  }
+
+  /**
+   * Returns the number of entries that were unread before.
+   */
+  @requireAuth()
+  static async markCurrentUserNotificationsRead(ids: number[]) {
+    return D1Service.markNotificationsRead(
+      NotificationService.currentUserIdOrThrow(),
+      ids
+    );
+  }
+
+  @requireAuth()
+  static async markAllCurrentUserNotificationsRead() {
+    return D1Service.markNotificationsRead(
+      NotificationService.currentUserIdOrThrow()
+    );
+  }
+
+  @requireAuth()
+  static async dismissCurrentUserNotifications(ids: number[]) {
+    return D1Service.dismissNotifications(
+      NotificationService.currentUserIdOrThrow(),
+      ids
+    );
+  }
+
+  private static currentUserIdOrThrow(): string {
+    const ctx = getContext();
+    const auth = ctx.get("auth") as { sub?: string } | undefined;
+    if (!auth?.sub) {
+      throw new InvalidInputError("Anonymous user has no notifications");
+    }
+    return auth.sub;
+  }
+
+  // --------------------------------------------------
+  // Notification preferences
+  // --------------------------------------------------
+
+  /**
+   * Effective preferences per user (defaults where no row exists).
+   * Without a stored language this falls back to "de"; preferencesOf
+   * also consults the ZITADEL profile.
+   */
+  static async preferencesFor(
+    userIds: string[]
+  ): Promise<Map<string, NotificationPreferences>> {
+    const rows = await D1Service.listNotificationPreferences(userIds);
+    const byUser = new Map(rows.map((r) => [r.userId, r]));
+    return new Map(
+      userIds.map((id) => [id, resolvePreferences(byUser.get(id) ?? null)])
+    );
+  }
+
+  /**
+   * Template locale per user: stored preference language, else the ZITADEL
+   * profile's preferredLanguage, else de-AT (see resolveLocale).
+   */
+  static async localesFor(
+    userIds: string[]
+  ): Promise<Map<string, NotificationLocale>> {
+    const rows = await D1Service.listNotificationPreferences(userIds);
+    const stored = new Map(rows.map((r) => [r.userId, r.language]));
+
+    const locales = new Map<string, NotificationLocale>();
+    for (const userId of userIds) {
+      let language = stored.get(userId) || undefined;
+      if (!language) {
+        try {
+          const user = await UserService.getZitadelUserById(userId);
+          language = user.human?.profile?.preferredLanguage || undefined;
+        } catch {
+          // Unknown user / ZITADEL down: default locale
+        }
+      }
+      locales.set(userId, resolveLocale(language));
+    }
+    return locales;
+  }
+
+  /**
+   * Preferences of one user, language defaulting to the ZITADEL profile's
+   * preferredLanguage.
+   */
+  static async preferencesOf(userId: string): Promise<NotificationPreferences> {
+    const [row] = await D1Service.listNotificationPreferences([userId]);
+    let profileLanguage: string | undefined;
+    if (!row?.language) {
+      try {
+        const user = await UserService.getZitadelUserById(userId);
+        profileLanguage = user.human?.profile?.preferredLanguage || undefined;
+      } catch {
+        // Unknown user / ZITADEL down: fall back to the default language
+      }
+    }
+    return resolvePreferences(row ?? null, profileLanguage);
+  }
+
+  @requireAuth()
+  static async getCurrentUserNotificationPreferences(): Promise<
+    NotificationPreferences
+  > {
+    const ctx = getContext();
+    const auth = ctx.get("auth") as { sub?: string } | undefined;
+    if (!auth?.sub) {
+      throw new InvalidInputError("Anonymous user has no preferences");
+    }
+    return NotificationService.preferencesOf(auth.sub);
+  }
+
+  /**
+   * Partial update; omitted fields keep their value, `quietHours: null`
+   * turns quiet hours off and `language: null` follows the profile again.
+   */
+  @requireAuth()
+  static async updateCurrentUserNotificationPreferences(
+    input: NotificationPreferencesInput
+  ): Promise<NotificationPreferences> {
+    const ctx = getContext();
+    const auth = ctx.get("auth") as { sub?: string } | undefined;
+    if (!auth?.sub) {
+      throw new InvalidInputError("Anonymous user has no preferences");
+    }
+
+    const unknown = (input.mutedCategories ?? []).filter(
+      (c) => !NOTIFICATION_CATEGORIES.includes(c)
+    );
+    if (unknown.length) {
+      throw new InvalidInputError(`Unknown categories: ${unknown.join(", ")}`);
+    }
+    if (input.channels) {
+      const bad = input.channels.filter(
+        (c) => !NOTIFICATION_CHANNELS.includes(c)
+      );
+      if (bad.length || !input.channels.length) {
+        throw new InvalidInputError(
+          `channels must be a non-empty list of ${NOTIFICATION_CHANNELS.join(
+            ", "
+          )}`
+        );
+      }
+    }
+    const quiet = input.quietHours;
+    if (quiet && !(isValidTime(quiet.start) && isValidTime(quiet.end))) {
+      throw new InvalidInputError("quietHours must use HH:mm");
+    }
+    if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+      throw new InvalidInputError(`Unknown timezone '${input.timezone}'`);
+    }
+    const languageTag = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+    if (input.language && !languageTag.test(input.language)) {
+      throw new InvalidInputError("language must be a BCP 47 tag, e.g. de-AT");
+    }
+
+    await D1Service.upsertNotificationPreference(auth.sub, {
+      mutedCategories: input.mutedCategories,
+      mutedDeviceIds: input.mutedDeviceIds,
+      channels: input.channels,
+      ...(quiet !== undefined
+        ? {
+            quietHoursStart: quiet?.start ?? null,
+            quietHoursEnd: quiet?.end ?? null
+          }
+        : {}),
+      timezone: input.timezone,
+      language: input.language
+    });
+
+    return NotificationService.preferencesOf(auth.sub);
+  }
+
+  // --------------------------------------------------
+  // Sending (web push via @pushforge/builder, email)
+  // --------------------------------------------------
+
+  /**
+   * Notify a user on their preferred channel (see sendNotificationToUsers).
    *
-   * Uses @pushforge/builder to handle:
+   * Pushes use @pushforge/builder to handle:
    * - VAPID authentication
    * - Web Push payload encryption
    */
@@ -326,19 +775,147 @@ export class NotificationService {
       data?: any;
       [key: string]: any;
     },
-    organizationId?: string
-  ): Promise<{ delivered: number; failed: number }> {
-    const subs =
-      (await NotificationService.getUserPushSubscriptions(
+    organizationId?: string,
+    opts?: PushSendOptions
+  ): Promise<PushDeliveryReport> {
+    return NotificationService.sendNotificationToUsers(
+      [userId],
+      payload,
+      opts
+    );
+  }
+
+  /**
+   * Same payload to several users (one D1 query each for preferences and
+   * subscriptions). Muted categories / devices are skipped, non-urgent
+   * notifications during quiet hours are queued until they end. Each user's
+   * channels are tried in order until one reaches them: by default web push
+   * to all devices, then email (booking / statement categories only).
+   */
+  static async sendNotificationToUsers(
+    userIds: string[],
+    payload: {
+      title: string;
+      body?: string;
+      icon?: string;
+      data?: any;
+      [key: string]: any;
+    },
+    opts?: PushSendOptions
+  ): Promise<PushDeliveryReport> {
+    const category = opts?.category ?? "system";
+    const prefs = await NotificationService.preferencesFor(userIds);
+
+    let muted = 0;
+    let deferred = 0;
+    const recipients: string[] = [];
+
+    for (const userId of userIds) {
+      const p = prefs.get(userId)!;
+      if (p.mutedCategories.includes(category)) {
+        muted++;
+        continue;
+      }
+
+      const quietUntil = opts?.urgent
+        ? null
+        : quietHoursEndAt(p.quietHours, p.timezone);
+      if (quietUntil) {
+        await D1Service.enqueueDeferredNotification({
+          userId,
+          category,
+          payload,
+          deliverAfter: quietUntil
+        });
+        deferred++;
+        continue;
+      }
+
+      recipients.push(userId);
+    }
+
+    if (opts?.inbox !== false) {
+      const unmuted = userIds.filter(
+        (id) => !prefs.get(id)!.mutedCategories.includes(category)
+      );
+      await NotificationService.storeInInbox(unmuted, category, payload);
+    }
+
+    const report: PushDeliveryReport = {
+      delivered: 0,
+      failed: 0,
+      pruned: 0,
+      emailed: 0,
+      muted,
+      deferred,
+      results: []
+    };
+
+    const channels = NotificationService.channels;
+    let pending = recipients
+      .map((userId) => ({
         userId,
-        organizationId
-      )) ?? [];
+        channels: prefs.get(userId)!.channels.filter((name) => {
+          const carried = channels[name].categories;
+          return !carried || carried.includes(category);
+        })
+      }))
+      .filter((p) => p.channels.length);
 
-    if (!subs.length) {
-      return { delivered: 0, failed: 0 };
+    // Each round offers everybody not reached yet their next channel
+    while (pending.length) {
+      const byChannel = new Map<NotificationChannelName, string[]>();
+      for (const { userId, channels: [next] } of pending) {
+        byChannel.set(next, [...(byChannel.get(next) ?? []), userId]);
+      }
+
+      const reached = new Set<string>();
+      for (const [name, ids] of byChannel) {
+        const d = await channels[name].deliver(ids, payload, prefs);
+        d.reached.forEach((id) => reached.add(id));
+        if (name === "email") report.emailed += d.delivered;
+        else report.delivered += d.delivered;
+        report.failed += d.failed;
+        report.pruned += d.pruned;
+        report.results.push(...d.results);
+      }
+
+      pending = pending
+        .filter((p) => !reached.has(p.userId))
+        .map((p) => ({ ...p, channels: p.channels.slice(1) }))
+        .filter((p) => p.channels.length);
     }
 
-    return NotificationService.sendPushToSubscriptions(subs, payload);
+    return report;
+  }
+
+  /**
+   * Cron: send pushes whose quiet hours are over. They go through the
+   * normal path again, so changed preferences still apply.
+   */
+  static async flushDeferredNotifications(): Promise<{
+    sent: number;
+    failed: number;
+  }> {
+    const due = await D1Service.takeDueDeferredNotifications();
+    let sent = 0;
+    let failed = 0;
+
+    for (const entry of due) {
+      try {
+        await NotificationService.sendNotificationToUsers(
+          [entry.userId],
+          JSON.parse(entry.payload),
+          { category: entry.category as NotificationCategory, inbox: false }
+        );
+        sent++;
+      } catch (e) {
+        failed++;
+        console.error("Failed to send deferred notification", entry.id, e);
+      }
+    }
+
+    return { sent, failed };
   }
 
   /**
@@ -348,28 +925,321 @@ export class NotificationService {
   @requireAuth()
   static async sendTestNotificationToCurrentUser(
     organizationId?: string
-  ): Promise<{ delivered: number; failed: number }> {
+  ): Promise<PushDeliveryReport> {
     const ctx = getContext();
     const auth = ctx.get("auth") as { sub?: string } | undefined;
     if (!auth?.sub) {
       throw new InvalidInputError("Anonymous user has no subscriptions");
     }
 
-    const payload = {
-      title: "Test notification",
-      body: "If you see this, push notifications are working for your account."
-    };
+    const prefs = await NotificationService.preferencesOf(auth.sub);
+    const payload = renderTemplate("test", prefs.language, {})!;
 
+    // Explicitly requested: ignore quiet hours
     return NotificationService.sendNotificationToUser(
       auth.sub,
       payload,
-      organizationId
+      organizationId,
+      { category: "system", urgent: true }
+    );
+  }
+
+  // --------------------------------------------------
+  // Transfer lifecycle pushes
+  // --------------------------------------------------
+
+  /**
+   * Send the templated push for a transfer event to customer, driver and/or
+   * dispatch (dispatcher + admin roles), one batch per audience and locale.
+   * The user who triggered the event is skipped. `note` (e.g. a decline
+   * reason) is appended to the body.
+   * Never throws; TransferService runs this in the background.
+   */
+  static async notifyTransferEvent(
+    event: TransferEvent,
+    row: TransferRow,
+    actorId?: string | null,
+    note?: string
+  ): Promise<{ delivered: number; failed: number }> {
+    try {
+      return await NotificationService.sendTransferPush(
+        event,
+        TRANSFER_EVENT_AUDIENCES[event],
+        row,
+        {
+          type: event,
+          category: TRANSFER_EVENT_CATEGORY[event],
+          urgent: URGENT_TRANSFER_EVENTS.includes(event),
+          actorId,
+          note
+        }
+      );
+    } catch (e) {
+      console.error(
+        "Failed to send transfer notifications",
+        event,
+        row.transferId,
+        e
+      );
+      return { delivered: 0, failed: 0 };
+    }
+  }
+
+  /**
+   * Ride reminder ("reminder", to customer and/or driver) or the escalation
+   * of a ride still without driver ("unassigned", to dispatch, urgent).
+   * Never throws.
+   */
+  static async notifyTransferReminder(
+    template: "reminder" | "unassigned",
+    audiences: TransferAudience[],
+    row: TransferRow
+  ): Promise<{ delivered: number; failed: number }> {
+    try {
+      return await NotificationService.sendTransferPush(
+        template,
+        audiences,
+        row,
+        template === "unassigned"
+          ? { type: "unassigned", category: "assignment", urgent: true }
+          : { type: "reminder", category: "reminder", urgent: false }
+      );
+    } catch (e) {
+      console.error(
+        "Failed to send ride reminder",
+        template,
+        row.transferId,
+        e
+      );
+      return { delivered: 0, failed: 0 };
+    }
+  }
+
+  /**
+   * Render "transfer.<template>.<audience>" per audience and recipient
+   * locale and push each batch.
+   */
+  private static async sendTransferPush(
+    template: string,
+    audiences: TransferAudience[],
+    row: TransferRow,
+    opts: {
+      type: string;
+      category: NotificationCategory;
+      urgent: boolean;
+      actorId?: string | null;
+      note?: string;
+    }
+  ): Promise<{ delivered: number; failed: number }> {
+    let delivered = 0;
+    let failed = 0;
+
+    const env: any = getEnv();
+    const recipients = await NotificationService.transferRecipients(
+      audiences,
+      row
     );
+    recipients.delete(opts.actorId ?? "");
+    const locales = await NotificationService.localesFor([
+      ...recipients.keys()
+    ]);
+
+    // "<audience>|<locale>" → users
+    const batches = new Map<string, string[]>();
+    for (const [userId, audience] of recipients) {
+      const key = `${audience}|${locales.get(userId)}`;
+      const list = batches.get(key) ?? [];
+      list.push(userId);
+      batches.set(key, list);
+    }
+
+    for (const [key, userIds] of batches) {
+      const [audience, locale] = key.split("|") as [
+        TransferAudience,
+        NotificationLocale
+      ];
+      const rendered = renderTemplate(
+        `transfer.${template}.${audience}`,
+        locale,
+        transferTemplateVars(row, locale)
+      );
+      if (!rendered) continue;
+
+      const { title, body } = rendered;
+      const result = await NotificationService.sendNotificationToUsers(
+        userIds,
+        {
+          title,
+          body: opts.note ? `${body} (${opts.note})` : body,
+          data: {
+            type: opts.type,
+            transferId: row.transferId,
+            url: transferDeepLink(row.transferId, env?.APP_URL)
+          }
+        },
+        { category: opts.category, urgent: opts.urgent }
+      );
+      delivered += result.delivered;
+      failed += result.failed;
+    }
+
+    return { delivered, failed };
+  }
+
+  /**
+   * userId → audience; a user in several audiences gets one push
+   * (customer before driver before dispatch).
+   */
+  private static async transferRecipients(
+    audiences: TransferAudience[],
+    row: TransferRow
+  ): Promise<Map<string, TransferAudience>> {
+    const recipients = new Map<string, TransferAudience>();
+    const add = (userId: string | undefined, audience: TransferAudience) => {
+      if (userId && !recipients.has(userId)) recipients.set(userId, audience);
+    };
+
+    if (audiences.includes("customer")) add(row.customerId, "customer");
+    if (audiences.includes("driver")) add(row.driverId, "driver");
+    if (audiences.includes("dispatch")) {
+      for (const role of ["dispatcher", "admin"]) {
+        for (const user of await UserService.listUsersByRole(role)) {
+          add(user.id, "dispatch");
+        }
+      }
+    }
+
+    return recipients;
+  }
+
+  // --------------------------------------------------
+  // Channels
+  // --------------------------------------------------
+
+  private static readonly channels: Record<
+    NotificationChannelName,
+    NotificationChannel
+  > = {
+    push: {
+      deliver: (userIds, payload, prefs) =>
+        NotificationService.deliverPush(userIds, payload, prefs)
+    },
+    email: {
+      categories: EMAIL_CATEGORIES,
+      deliver: (userIds, payload) =>
+        NotificationService.deliverEmail(userIds, payload)
+    }
+  };
+
+  /**
+   * Web push to every unmuted device. Dead subscriptions are deleted,
+   * delivered ones get lastSuccessAt.
+   */
+  private static async deliverPush(
+    userIds: string[],
+    payload: NotificationPayload,
+    prefs: Map<string, NotificationPreferences>
+  ): Promise<ChannelDelivery> {
+    const rows = (await D1Service.listPushSubscriptions(userIds)).filter(
+      (rec) =>
+        !rec.deviceId ||
+        !prefs.get(rec.userId)?.mutedDeviceIds.includes(rec.deviceId)
+    );
+
+    const reached = new Set<string>();
+    if (!rows.length) {
+      return { reached, delivered: 0, failed: 0, pruned: 0, results: [] };
+    }
+
+    const report = await NotificationService.sendPushToSubscriptions(
+      rows.map(fromD1Subscription),
+      payload
+    );
+
+    const endpointsWith = (statuses: PushDeliveryStatus[]) =>
+      report.results
+        .filter((r) => statuses.includes(r.status))
+        .map((r) => r.endpoint);
+
+    const delivered = new Set(endpointsWith(["delivered"]));
+    for (const rec of rows) {
+      if (delivered.has(rec.endpoint)) reached.add(rec.userId);
+    }
+
+    let pruned = 0;
+    try {
+      pruned = await D1Service.deletePushSubscriptions(
+        endpointsWith(PRUNED_STATUSES)
+      );
+      await D1Service.markPushSubscriptionsDelivered([...delivered]);
+    } catch (e) {
+      console.error("Failed to update push subscriptions after send", e);
+    }
+
+    return {
+      reached,
+      delivered: report.delivered,
+      failed: report.failed,
+      pruned,
+      results: report.results
+    };
+  }
+
+  /**
+   * Email to the ZITADEL address of each user. Reaches nobody if no
+   * transport is configured (see utils/emailTransport.ts).
+   */
+  private static async deliverEmail(
+    userIds: string[],
+    payload: NotificationPayload
+  ): Promise<ChannelDelivery> {
+    const reached = new Set<string>();
+    let failed = 0;
+
+    for (const userId of userIds) {
+      const address = await NotificationService.emailAddressOf(userId);
+      if (!address) continue;
+      try {
+        if (
+          await NotificationService.sendEmail(emailFromPayload(address, payload))
+        ) {
+          reached.add(userId);
+        }
+      } catch (e) {
+        failed++;
+        console.error("Failed to send notification email", userId, e);
+      }
+    }
+
+    return {
+      reached,
+      delivered: reached.size,
+      failed,
+      pruned: 0,
+      results: []
+    };
+  }
+
+  private static async sendEmail(message: EmailMessage): Promise<boolean> {
+    const transport = emailTransportFromEnv(getEnv());
+    if (!transport) return false;
+    await transport.send(message);
+    return true;
+  }
+
+  private static async emailAddressOf(userId: string): Promise<string | null> {
+    try {
+      const user = await UserService.getZitadelUserById(userId);
+      return user.human?.email?.email || null;
+    } catch (e) {
+      console.error("Failed to load email address", userId, e);
+      return null;
+    }
   }
 
   /**
    * Low-level helper: send encrypted push notification via PushForge
-   * to each subscription in the list.
+   * to each subscription in the list and classify every response.
    */
   private static async sendPushToSubscriptions(
     subscriptions: PushSubscription[],
@@ -380,53 +1250,123 @@ export class NotificationService {
       data?: any;
       [key: string]: any;
     }
-  ): Promise<{ delivered: number; failed: number }> {
+  ): Promise<PushDeliveryReport> {
     const { privateJWK, adminContact } = getVapidConfig();
-
-    let delivered = 0;
-    let failed = 0;
+    const results: PushDeliveryResult[] = [];
 
     for (const sub of subscriptions) {
+      if (!sub?.endpoint) continue;
+
+      if (sub.expirationTime && sub.expirationTime <= Date.now()) {
+        results.push({ endpoint: sub.endpoint, status: "expired" });
+        continue;
+      }
+
       const pfSub = toPushForgeSubscription(sub);
       if (!pfSub) {
-        failed++;
+        results.push({ endpoint: sub.endpoint, status: "invalid" });
         continue;
       }
 
-      try {
-        const message = buildMessageFromPayload(payload, adminContact);
+      const origin = endpointOrigin(pfSub.endpoint);
+      const blockedUntil = rateLimitedUntil.get(origin) ?? 0;
+      if (blockedUntil > Date.now()) {
+        results.push({
+          endpoint: pfSub.endpoint,
+          status: "rateLimited",
+          retryAfterSeconds: Math.ceil((blockedUntil - Date.now()) / 1000)
+        });
+        continue;
+      }
 
-        const { endpoint, headers, body } = await buildPushHTTPRequest({
+      results.push(
+        await NotificationService.sendPush(pfSub, {
           privateJWK,
-          message,
-          subscription: pfSub
-        });
+          message: buildMessageFromPayload(payload, adminContact)
+        })
+      );
+    }
 
-        const res = await fetch(endpoint, {
-          method: "POST",
-          headers,
-          body
-        });
+    const delivered = results.filter((r) => r.status === "delivered").length;
+    return {
+      delivered,
+      failed: results.length - delivered,
+      pruned: 0,
+      emailed: 0,
+      muted: 0,
+      deferred: 0,
+      results
+    };
+  }
 
-        if (res.status === 201) {
-          delivered++;
-        } else {
-          failed++;
-          const text = await res.text().catch(() => "");
-          console.warn(
-            "Push endpoint returned non-201 status",
-            res.status,
-            "for",
-            pfSub.endpoint,
-            text
-          );
+  /**
+   * POST one push. On 429 a short Retry-After is waited out once; longer
+   * ones block the push service origin until then.
+   */
+  private static async sendPush(
+    subscription: NonNullable<ReturnType<typeof toPushForgeSubscription>>,
+    opts: {
+      privateJWK: JsonWebKey;
+      message: ReturnType<typeof buildMessageFromPayload>;
+    },
+    retried = false
+  ): Promise<PushDeliveryResult> {
+    const endpoint = subscription.endpoint;
+
+    try {
+      // Built per attempt: the VAPID JWT and encryption are single-use
+      const { headers, body } = await buildPushHTTPRequest({
+        privateJWK: opts.privateJWK,
+        message: opts.message,
+        subscription
+      });
+
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body
+      });
+
+      if (res.ok) {
+        return { endpoint, status: "delivered", httpStatus: res.status };
+      }
+
+      if (res.status === 404 || res.status === 410) {
+        return { endpoint, status: "gone", httpStatus: res.status };
+      }
+
+      if (res.status === 429) {
+        const waitMs = parseRetryAfterMs(res.headers.get("Retry-After"));
+        if (!retried && waitMs <= MAX_INLINE_RETRY_AFTER_MS) {
+          await new Promise((resolve) => setTimeout(resolve, waitMs));
+          return NotificationService.sendPush(subscription, opts, true);
         }
-      } catch (e) {
-        failed++;
-        console.error("Failed to send push via PushForge", e);
+        rateLimitedUntil.set(endpointOrigin(endpoint), Date.now() + waitMs);
+        return {
+          endpoint,
+          status: "rateLimited",
+          httpStatus: 429,
+          retryAfterSeconds: Math.ceil(waitMs / 1000)
+        };
       }
-    }
 
-    return { delivered, failed };
+      const text = await res.text().catch(() => "");
+      console.warn(
+        "Push endpoint returned non-2xx status",
+        res.status,
+        "for",
+        endpoint,
+        text
+      );
+      return {
+        endpoint,
+        status: "failed",
+        httpStatus: res.status,
+        error: text || undefined
+      };
+    } catch (e: any) {
+      console.error("Failed to send push via PushForge", e);
+      return { endpoint, status: "failed", error: String(e?.message ?? e) };
+    }
   }
 }
@@ -0,0 +1,291 @@
+// src/pricing.service.ts
+import { getEnv, requireAuth } from "@getcronit/pylon";
+import validator from "validator";
+import {
+  AuthorizationError,
+  InvalidInputError,
+  NotFoundError
+} from "./errors/general.errors";
+import { NoTariffError } from "./errors/pricing.errors";
+import {
+  currentUserId,
+  hasPermission,
+  requirePermission
+} from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import { UserService } from "./user.service";
+import { normalizePlace } from "./utils/dispatchConflicts";
+import { isValidTime } from "./utils/notificationPreferences";
+import {
+  parsePricingRules,
+  priceLines,
+  PricingRules,
+  QuoteLine
+} from "./utils/pricing";
+import {
+  activeRateCard,
+  matchRateLine,
+  RateLine,
+  rateLinesFromRoutes
+} from "./utils/rateCards";
+import { VEHICLE_CLASSES, VehicleClass } from "./utils/vehicleClasses";
+
+export type QuoteInput = {
+  customerId?: string; // default: signed-in user
+  pickup: string;
+  dropoff: string;
+  rideDateISO: string;
+  rideTime: string;
+  vehicleClass?: VehicleClass;
+  waitingMinutes?: number;
+  extraStops?: number;
+};
+
+// Where the base price came from
+export type PriceSource = "customerRate" | "tariff";
+
+export interface TransferQuote {
+  customerId: string | null;
+  source: PriceSource;
+  rateCardVersion: number | null; // null = routes metadata or tariff
+  fromZone: string;
+  toZone: string;
+  vehicleClass: VehicleClass | null;
+  lines: QuoteLine[];
+  totalEUR: number;
+}
+
+type BasePrice = {
+  source: PriceSource;
+  priceEUR: number;
+  label: string;
+  classIncluded: boolean;
+};
+
+function pricingRules(): PricingRules {
+  const env: any = getEnv();
+  return parsePricingRules(env?.PRICING_RULES);
+}
+
+function assertAmount(value: number, label: string) {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new InvalidInputError(`${label} must be a non-negative number`);
+  }
+}
+
+export class PricingService {
+  /**
+   * Itemized quote: the route price of the customer's active rate card if
+   * there is one, otherwise the zone / route tariff, plus surcharges and
+   * fees. Customers
+   * quote for themselves; dispatch may pass any `customerId`.
+   */
+  @requireAuth()
+  @requirePermission("transfers:book")
+  static async quoteTransfer(input: QuoteInput): Promise<TransferQuote> {
+    const userId = currentUserId();
+    if (!userId) throw new AuthorizationError("Authentication required");
+
+    const customerId = input.customerId || userId;
+    if (customerId !== userId && !(await hasPermission("transfers:create"))) {
+      throw new AuthorizationError(
+        "Only admins and dispatchers can quote for another customer"
+      );
+    }
+
+    if (!validator.isISO8601(input.rideDateISO)) {
+      throw new InvalidInputError("Invalid rideDateISO");
+    }
+    if (!isValidTime(input.rideTime)) {
+      throw new InvalidInputError("rideTime must use HH:mm");
+    }
+    if (input.vehicleClass && !VEHICLE_CLASSES.includes(input.vehicleClass)) {
+      throw new InvalidInputError(
+        `vehicleClass must be one of ${VEHICLE_CLASSES.join(", ")}`
+      );
+    }
+    for (const key of ["waitingMinutes", "extraStops"] as const) {
+      const value = input[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new InvalidInputError(`${key} must be a non-negative integer`);
+      }
+    }
+
+    const quote = await PricingService.quote({ ...input, customerId });
+    if (!quote) throw new NoTariffError(input.pickup, input.dropoff);
+    return quote;
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async getPricingRules(): Promise<PricingRules> {
+    return pricingRules();
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async getTariffs() {
+    return D1Service.listTariffs();
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:read")
+  static async getTariffZones() {
+    return D1Service.listTariffZones();
+  }
+
+  /**
+   * Base price between two zones (or places without a zone), used in both
+   * directions unless the reverse has its own tariff.
+   */
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async setTariff(fromZone: string, toZone: string, priceEUR: number) {
+    assertAmount(priceEUR, "priceEUR");
+    return D1Service.upsertTariff(
+      PricingService.zoneName(fromZone),
+      PricingService.zoneName(toZone),
+      priceEUR
+    );
+  }
+
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async removeTariff(tariffId: number) {
+    if (!(await D1Service.deleteTariff(tariffId))) {
+      throw new NotFoundError(`Tariff ${tariffId} not found`);
+    }
+    return true;
+  }
+
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async setTariffZone(place: string, zone: string) {
+    return D1Service.upsertTariffZone(
+      normalizePlace(place),
+      PricingService.zoneName(zone)
+    );
+  }
+
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async removeTariffZone(place: string) {
+    if (!(await D1Service.deleteTariffZone(normalizePlace(place)))) {
+      throw new NotFoundError(`No zone for '${place}'`);
+    }
+    return true;
+  }
+
+  /**
+   * quoteTransfer without checks; null if neither a contract rate nor a
+   * tariff covers the route. Used by TransferService to pre-fill prices.
+   */
+  static async quote(input: QuoteInput): Promise<TransferQuote | null> {
+    const [zones, tariffs, cards] = await Promise.all([
+      D1Service.listTariffZones(),
+      D1Service.listTariffs(),
+      input.customerId
+        ? D1Service.listRateCards(input.customerId)
+        : Promise.resolve([])
+    ]);
+
+    // Customers without rate cards (not imported yet) keep their routes
+    // metadata prices
+    const card = activeRateCard(cards, input.rideDateISO);
+    const rateLines = card
+      ? card.lines
+      : !cards.length && input.customerId
+      ? rateLinesFromRoutes(
+          (await UserService.getUserRoutes(input.customerId).catch(
+            () => null
+          )) ?? []
+        )
+      : [];
+
+    const zoneOf = (place: string) => {
+      const normalized = normalizePlace(place);
+      return zones.find((z) => z.place === normalized)?.zone ?? normalized;
+    };
+    const fromZone = zoneOf(input.pickup);
+    const toZone = zoneOf(input.dropoff);
+    const vehicleClass = input.vehicleClass ?? null;
+
+    const base =
+      PricingService.contractRate(rateLines, input, vehicleClass) ??
+      PricingService.tariff(tariffs, fromZone, toZone);
+    if (!base) return null;
+
+    const { lines, totalEUR } = priceLines(
+      {
+        baseEUR: base.priceEUR,
+        baseLabel: base.label,
+        vehicleClass,
+        classIncluded: base.classIncluded,
+        rideDateISO: input.rideDateISO,
+        rideTime: input.rideTime,
+        waitingMinutes: input.waitingMinutes,
+        extraStops: input.extraStops
+      },
+      pricingRules()
+    );
+
+    return {
+      customerId: input.customerId ?? null,
+      source: base.source,
+      rateCardVersion:
+        base.source === "customerRate" ? card?.version ?? null : null,
+      fromZone,
+      toZone,
+      vehicleClass,
+      lines,
+      totalEUR
+    };
+  }
+
+  // Normalized like places, so a tariff may also name a place directly
+  private static zoneName(zone: string): string {
+    const name = normalizePlace(zone);
+    if (!name) throw new InvalidInputError("Zone must not be empty");
+    return name;
+  }
+
+  private static contractRate(
+    lines: RateLine[],
+    input: QuoteInput,
+    vehicleClass: VehicleClass | null
+  ): BasePrice | null {
+    const line = matchRateLine(
+      lines,
+      input.pickup,
+      input.dropoff,
+      vehicleClass
+    );
+    if (!line) return null;
+
+    return {
+      source: "customerRate",
+      priceEUR: line.priceEUR,
+      label: `Vertragspreis ${line.pickup} → ${line.dropoff}`,
+      // A line for the class is the price for that class
+      classIncluded: !!line.vehicleClass
+    };
+  }
+
+  private static tariff(
+    tariffs: { fromZone: string; toZone: string; priceEUR: number }[],
+    fromZone: string,
+    toZone: string
+  ): BasePrice | null {
+    const tariff =
+      tariffs.find((t) => t.fromZone === fromZone && t.toZone === toZone) ??
+      tariffs.find((t) => t.fromZone === toZone && t.toZone === fromZone);
+    if (!tariff) return null;
+
+    return {
+      source: "tariff",
+      priceEUR: tariff.priceEUR,
+      label: `Tarif ${tariff.fromZone} → ${tariff.toZone}`,
+      classIncluded: false
+    };
+  }
+}
@@ -0,0 +1,186 @@
+// src/rateCard.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { InvalidInputError, NotFoundError } from "./errors/general.errors";
+import { currentUserId, requirePermission } from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import { UserService } from "./user.service";
+import { mapWithConcurrency } from "./utils/concurrency";
+import {
+  duplicateRateLine,
+  LEGACY_RATE_CARD_VALID_FROM,
+  RateLine,
+  rateLinesFromRoutes
+} from "./utils/rateCards";
+import { VEHICLE_CLASSES, VehicleClass } from "./utils/vehicleClasses";
+
+export type RateCardLineInput = {
+  pickup: string;
+  dropoff: string;
+  vehicleClass?: VehicleClass;
+  priceEUR: number;
+};
+
+export type RateCardInput = {
+  validFrom: string; // YYYY-MM-DD
+  validUntil?: string; // YYYY-MM-DD
+  note?: string;
+  lines: RateCardLineInput[];
+};
+
+export interface RateCardImportResult {
+  customerId: string;
+  rateCardId: number | null; // null = skipped
+  lines: number;
+  skipped?: "hasRateCards" | "noRoutes";
+}
+
+const DATE_ISO = /^\d{4}-\d{2}-\d{2}$/;
+
+function assertDate(value: string | undefined, label: string) {
+  if (value !== undefined && !DATE_ISO.test(value)) {
+    throw new InvalidInputError(`${label} must be YYYY-MM-DD`);
+  }
+}
+
+function validatedLines(lines: RateCardLineInput[]): RateLine[] {
+  if (!lines?.length) {
+    throw new InvalidInputError("A rate card needs at least one line");
+  }
+
+  const result = lines.map((l): RateLine => {
+    if (!l.pickup?.trim() || !l.dropoff?.trim()) {
+      throw new InvalidInputError("pickup and dropoff are required");
+    }
+    if (l.vehicleClass && !VEHICLE_CLASSES.includes(l.vehicleClass)) {
+      throw new InvalidInputError(
+        `vehicleClass must be one of ${VEHICLE_CLASSES.join(", ")}`
+      );
+    }
+    if (!Number.isFinite(l.priceEUR) || l.priceEUR < 0) {
+      throw new InvalidInputError("priceEUR must be a non-negative number");
+    }
+    return {
+      pickup: l.pickup.trim(),
+      dropoff: l.dropoff.trim(),
+      vehicleClass: l.vehicleClass ?? null,
+      priceEUR: l.priceEUR
+    };
+  });
+
+  const duplicate = duplicateRateLine(result);
+  if (duplicate) {
+    throw new InvalidInputError(
+      `Route '${duplicate.pickup}' → '${duplicate.dropoff}' is listed twice`
+    );
+  }
+  return result;
+}
+
+export class RateCardService {
+  /**
+   * All versions of a customer's contract rates, newest first.
+   */
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async getRateCards(customerId: string) {
+    return D1Service.listRateCards(customerId);
+  }
+
+  /**
+   * Publish the next version. From `validFrom` on it replaces older
+   * versions; they stay for quotes of earlier rides and for history.
+   */
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async publishRateCard(customerId: string, input: RateCardInput) {
+    assertDate(input.validFrom, "validFrom");
+    assertDate(input.validUntil, "validUntil");
+    if (input.validUntil && input.validUntil < input.validFrom) {
+      throw new InvalidInputError("validUntil is before validFrom");
+    }
+    const lines = validatedLines(input.lines);
+
+    // Contracts only for existing, active customers
+    await UserService.getActiveZitadelUser(customerId);
+
+    return D1Service.createRateCard({
+      customerId,
+      validFrom: input.validFrom,
+      validUntil: input.validUntil ?? null,
+      note: input.note?.trim() || null,
+      createdBy: currentUserId(),
+      lines
+    });
+  }
+
+  /**
+   * End a contract (inclusive) or reopen it with `validUntil` unset.
+   * Prices themselves can't be edited, publish a new version instead.
+   */
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async setRateCardValidUntil(rateCardId: number, validUntil?: string) {
+    assertDate(validUntil, "validUntil");
+    const card = await D1Service.findRateCard(rateCardId);
+    if (!card) throw new NotFoundError(`Rate card ${rateCardId} not found`);
+    if (validUntil && validUntil < card.validFrom) {
+      throw new InvalidInputError("validUntil is before validFrom");
+    }
+
+    await D1Service.setRateCardValidUntil(rateCardId, validUntil ?? null);
+    return (await D1Service.findRateCard(rateCardId))!;
+  }
+
+  /**
+   * Copy the `routes` user metadata into version 1 rate cards, for the
+   * given customers or every user with the customer role. Customers that
+   * already have a rate card are skipped, so this can run repeatedly.
+   */
+  @requireAuth()
+  @requirePermission("pricing:manage")
+  static async importRouteRateCards(
+    customerIds?: string[]
+  ): Promise<RateCardImportResult[]> {
+    const ids =
+      customerIds ??
+      (await UserService.listUsersByRole("customer", 1000)).map((u) => u.id);
+    const withCards = new Set(
+      (await D1Service.listRateCards()).map((c) => c.customerId)
+    );
+
+    return mapWithConcurrency(
+      ids,
+      5,
+      async (customerId): Promise<RateCardImportResult> => {
+        if (withCards.has(customerId)) {
+          return {
+            customerId,
+            rateCardId: null,
+            lines: 0,
+            skipped: "hasRateCards"
+          };
+        }
+
+        const lines = rateLinesFromRoutes(
+          (await UserService.getUserRoutes(customerId)) ?? []
+        );
+        if (!lines.length) {
+          return {
+            customerId,
+            rateCardId: null,
+            lines: 0,
+            skipped: "noRoutes"
+          };
+        }
+
+        const card = await D1Service.createRateCard({
+          customerId,
+          validFrom: LEGACY_RATE_CARD_VALID_FROM,
+          note: "imported from routes metadata",
+          lines
+        });
+        return { customerId, rateCardId: card.id, lines: lines.length };
+      }
+    );
+  }
+}
@@ -0,0 +1,386 @@
+// src/reconcile.service.ts
+import { getEnv, requireAuth } from "@getcronit/pylon";
+import { InvalidInputError } from "./errors/general.errors";
+import { requirePermission } from "./utils/authorization";
+import { parseSheetAmount } from "./utils/sheetsFormatting";
+import { D1Service, D1TransferPatch } from "./d1.service";
+import {
+  TransferRow,
+  TransferService,
+  TransferState
+} from "./transfer.service";
+import {
+  parseVehicleClass,
+  splitVehicleDisplayName
+} from "./utils/vehicleClasses";
+
+/**
+ * How differences are resolved:
+ * - sheetWins:  AllRequests is copied into D1
+ * - d1Wins:     D1 is projected over AllRequests
+ * - newestWins: a sheet row whose updatedAtISO (column P) is not older than
+ *               the D1 row was edited by hand after the last projection and
+ *               wins; otherwise D1 wins.
+ *
+ * Rows are never deleted: a sheet-only row is only created in D1 when the
+ * sheet may win, a D1-only row is only projected when D1 may win.
+ */
+export type ReconcilePolicy = "sheetWins" | "d1Wins" | "newestWins";
+
+export type TransferDiffKind = "sheetOnly" | "d1Only" | "conflict";
+
+export interface TransferFieldDiff {
+  field: string;
+  sheet: string | null;
+  d1: string | null;
+}
+
+export interface TransferDiff {
+  transferId: string;
+  kind: TransferDiffKind;
+  sheetRowIdx?: number;
+  fields: TransferFieldDiff[];
+  // Set when a policy was applied
+  action?: "updatedD1" | "createdInD1" | "projectedToSheet" | "skipped";
+  error?: string;
+}
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  policy?: ReconcilePolicy;
+  checkedAtISO: string;
+  sheetRows: number;
+  d1Rows: number;
+  differences: TransferDiff[];
+  applied: number;
+  failed: number;
+}
+
+// Fields compared between AllRequests and D1 (timestamps are metadata)
+const COMPARED_FIELDS = [
+  "customerId",
+  "customerName",
+  "rideDateISO",
+  "rideTime",
+  "pickup",
+  "dropoff",
+  "roomOrName",
+  "vehicle",
+  "amountEUR",
+  "payment",
+  "driverId",
+  "driverName",
+  "state"
+] as const;
+
+type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+const TRANSFER_STATES: TransferState[] = [
+  "pending",
+  "confirmed",
+  "complete",
+  "canceled",
+  "terminated"
+];
+
+// ---------- Normalization (sheet cells come back as formatted text) ----------
+function normalizeDate(v: string): string {
+  const de = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(v);
+  if (de) return `${de[3]}-${de[2].padStart(2, "0")}-${de[1].padStart(2, "0")}`;
+  return v.slice(0, 10);
+}
+
+function normalizeTime(v: string): string {
+  const m = /^(\d{1,2}):(\d{2})/.exec(v);
+  return m ? `${m[1].padStart(2, "0")}:${m[2]}` : v;
+}
+
+function normalizeAmount(v: string): string {
+  if (!v) return "";
+  const n = parseSheetAmount(v);
+  return Number.isFinite(n) ? n.toFixed(2) : v;
+}
+
+function normalizedValue(row: TransferRow, field: ComparedField): string {
+  const raw = row[field];
+  const v = raw === undefined || raw === null ? "" : String(raw).trim();
+  switch (field) {
+    case "rideDateISO":
+      return normalizeDate(v);
+    case "rideTime":
+      return normalizeTime(v);
+    case "amountEUR":
+      return normalizeAmount(v);
+    default:
+      return v;
+  }
+}
+
+function diffFields(sheet: TransferRow, d1: TransferRow): TransferFieldDiff[] {
+  const diffs: TransferFieldDiff[] = [];
+  for (const field of COMPARED_FIELDS) {
+    const a = normalizedValue(sheet, field);
+    const b = normalizedValue(d1, field);
+    if (a !== b) diffs.push({ field, sheet: a || null, d1: b || null });
+  }
+  return diffs;
+}
+
+function allFields(
+  row: TransferRow,
+  side: "sheet" | "d1"
+): TransferFieldDiff[] {
+  return COMPARED_FIELDS.map((field) => {
+    const v = normalizedValue(row, field) || null;
+    return { field, sheet: side === "sheet" ? v : null, d1: side === "d1" ? v : null };
+  });
+}
+
+/**
+ * Class and fleet vehicle for a "Wagen" cell as written by
+ * vehicleDisplayName ("Van (W-12345A)"), or a class label / legacy name.
+ * A plate that is in the fleet decides the class.
+ */
+async function sheetVehicle(
+  value: string | undefined
+): Promise<Pick<D1TransferPatch, "vehicleClass" | "vehicleId">> {
+  if (!value?.trim()) return { vehicleClass: null, vehicleId: null };
+  const { name, plate } = splitVehicleDisplayName(value);
+  const vehicle = plate ? await D1Service.findVehicleByPlate(plate) : null;
+  if (vehicle) {
+    return { vehicleClass: vehicle.vehicleClass, vehicleId: vehicle.id };
+  }
+  return { vehicleClass: parseVehicleClass(name), vehicleId: null };
+}
+
+async function sheetRowToPatch(row: TransferRow): Promise<D1TransferPatch> {
+  if (row.amountEUR !== undefined && !Number.isFinite(row.amountEUR)) {
+    // Stays in the report as a difference until the cell is fixed
+    throw new InvalidInputError("Betrag in AllRequests is not a number");
+  }
+  const amount = normalizeAmount(String(row.amountEUR ?? ""));
+  return {
+    customerId: row.customerId,
+    customerName: row.customerName || null,
+    rideDateISO: normalizeDate(row.rideDateISO),
+    rideTime: normalizeTime(row.rideTime),
+    pickup: row.pickup,
+    dropoff: row.dropoff,
+    roomOrName: row.roomOrName || null,
+    vehicle: row.vehicle || null,
+    ...(await sheetVehicle(row.vehicle)),
+    amountEUR: amount ? Number(amount) : null,
+    payment: row.payment || null,
+    driverId: row.driverId || null,
+    driverName: row.driverName || null,
+    state: row.state
+  };
+}
+
+function sheetIsNewer(sheet: TransferRow, d1: TransferRow): boolean {
+  // Legacy rows without column P can't be dated; D1 stays authoritative
+  if (!sheet.updatedAtISO || !d1.updatedAtISO) return false;
+  const sheetStamp = Date.parse(sheet.updatedAtISO);
+  const d1Stamp = Date.parse(d1.updatedAtISO);
+  if (Number.isNaN(sheetStamp) || Number.isNaN(d1Stamp)) return false;
+  return sheetStamp >= d1Stamp;
+}
+
+/**
+ * Diffs AllRequests against the D1 Transfer table and optionally repairs
+ * drift according to a ReconcilePolicy.
+ */
+export class ReconcileService {
+  @requireAuth()
+  @requirePermission("sheets:sync")
+  static async reconcileTransfers(
+    policy?: ReconcilePolicy,
+    dryRun = true
+  ): Promise<ReconcileReport> {
+    if (!dryRun && !policy) {
+      throw new InvalidInputError("policy is required unless dryRun is set");
+    }
+    return ReconcileService.run(policy, dryRun);
+  }
+
+  /**
+   * Cron entry point. Applies RECONCILE_POLICY from env if configured,
+   * otherwise only logs the differences.
+   */
+  static async reconcileFromCron(): Promise<ReconcileReport> {
+    const env: any = getEnv();
+    const policy = env?.RECONCILE_POLICY as ReconcilePolicy | undefined;
+    const report = await ReconcileService.run(policy, !policy);
+
+    if (report.differences.length) {
+      console.warn(
+        `Reconciliation found ${report.differences.length} difference(s)`,
+        JSON.stringify(report.differences)
+      );
+    }
+    return report;
+  }
+
+  private static async run(
+    policy: ReconcilePolicy | undefined,
+    dryRun: boolean
+  ): Promise<ReconcileReport> {
+    const sheetRows = await TransferService.listMasterSheetTransfers();
+    const d1Rows = await TransferService.findTransfers();
+
+    const d1ById = new Map(d1Rows.map((r) => [r.transferId, r]));
+    const seen = new Set<string>();
+    const differences: TransferDiff[] = [];
+
+    for (const { rowIdx, row } of sheetRows) {
+      // First occurrence wins if a transferId was duplicated by hand
+      if (seen.has(row.transferId)) continue;
+      seen.add(row.transferId);
+
+      const d1 = d1ById.get(row.transferId);
+      if (!d1) {
+        differences.push({
+          transferId: row.transferId,
+          kind: "sheetOnly",
+          sheetRowIdx: rowIdx,
+          fields: allFields(row, "sheet")
+        });
+        continue;
+      }
+
+      const fields = diffFields(row, d1);
+      if (fields.length) {
+        differences.push({
+          transferId: row.transferId,
+          kind: "conflict",
+          sheetRowIdx: rowIdx,
+          fields
+        });
+      }
+    }
+
+    for (const d1 of d1Rows) {
+      if (!seen.has(d1.transferId)) {
+        differences.push({
+          transferId: d1.transferId,
+          kind: "d1Only",
+          fields: allFields(d1, "d1")
+        });
+      }
+    }
+
+    const report: ReconcileReport = {
+      dryRun,
+      policy,
+      checkedAtISO: new Date().toISOString(),
+      sheetRows: sheetRows.length,
+      d1Rows: d1Rows.length,
+      differences,
+      applied: 0,
+      failed: 0
+    };
+
+    if (dryRun || !policy) return report;
+
+    const sheetById = new Map(sheetRows.map((s) => [s.row.transferId, s.row]));
+
+    for (const diff of differences) {
+      try {
+        diff.action = await ReconcileService.apply(
+          diff,
+          policy,
+          sheetById.get(diff.transferId),
+          d1ById.get(diff.transferId)
+        );
+        if (diff.action !== "skipped") report.applied++;
+      } catch (err: any) {
+        report.failed++;
+        diff.error = String(err?.message ?? err);
+        console.error("Reconciliation failed for", diff.transferId, err);
+      }
+    }
+
+    return report;
+  }
+
+  private static async apply(
+    diff: TransferDiff,
+    policy: ReconcilePolicy,
+    sheet: TransferRow | undefined,
+    d1: TransferRow | undefined
+  ): Promise<NonNullable<TransferDiff["action"]>> {
+    const sheetMayWin = policy === "sheetWins" || policy === "newestWins";
+    const d1MayWin = policy === "d1Wins" || policy === "newestWins";
+
+    if (diff.kind === "sheetOnly" && sheet) {
+      if (!sheetMayWin || !TRANSFER_STATES.includes(sheet.state)) {
+        return "skipped";
+      }
+      const patch = await sheetRowToPatch(sheet);
+      await D1Service.upsertD1Transfer(
+        {
+          transferId: sheet.transferId,
+          rideDateISO: patch.rideDateISO!,
+          rideTime: patch.rideTime!,
+          pickup: sheet.pickup,
+          dropoff: sheet.dropoff,
+          roomOrName: sheet.roomOrName || undefined,
+          vehicle: sheet.vehicle || undefined,
+          vehicleClass: patch.vehicleClass,
+          vehicleId: patch.vehicleId,
+          amountEUR: patch.amountEUR,
+          payment: patch.payment,
+          customerId: sheet.customerId,
+          customerName: patch.customerName,
+          driverId: patch.driverId,
+          driverName: patch.driverName,
+          state: sheet.state,
+          requestedAtISO: sheet.requestedAtISO || new Date().toISOString()
+        },
+        "reconciled",
+        {
+          fromState: null,
+          toState: sheet.state,
+          reason: "reconciled from AllRequests"
+        }
+      );
+      return "createdInD1";
+    }
+
+    if (diff.kind === "d1Only") {
+      if (!d1MayWin) return "skipped";
+      await TransferService.projectTransfer(diff.transferId);
+      return "projectedToSheet";
+    }
+
+    if (!sheet || !d1) return "skipped";
+
+    const sheetWins =
+      policy === "sheetWins" ||
+      (policy === "newestWins" && sheetIsNewer(sheet, d1));
+
+    if (sheetWins) {
+      if (!TRANSFER_STATES.includes(sheet.state)) return "skipped";
+      // The outbox entry re-projects the row so column P gets refreshed
+      // Manual state edits bypass the state machine but stay in the history
+      const stateChange =
+        sheet.state !== d1.state
+          ? {
+              fromState: d1.state,
+              toState: sheet.state,
+              reason: "reconciled from AllRequests"
+            }
+          : undefined;
+      await D1Service.updateD1Transfer(
+        diff.transferId,
+        await sheetRowToPatch(sheet),
+        "reconciled",
+        stateChange
+      );
+      return "updatedD1";
+    }
+
+    await TransferService.projectTransfer(diff.transferId);
+    return "projectedToSheet";
+  }
+}
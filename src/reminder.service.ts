@@ -0,0 +1,128 @@
+// src/reminder.service.ts
+import { getEnv, requireAuth } from "@getcronit/pylon";
+import { requirePermission } from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import { NotificationService } from "./notification.service";
+import { TransferRow, TransferService } from "./transfer.service";
+import {
+  DEFAULT_UNASSIGNED_ESCALATION_MINUTES,
+  localDateISO,
+  parseRideReminders,
+  RideReminder,
+  rideStartsAt,
+  UNASSIGNED_ESCALATION_KIND
+} from "./utils/rideReminders";
+import { DRIVER_ACTIVE_STATES } from "./utils/transferStateMachine";
+
+export interface RideReminderReport {
+  checked: number;
+  reminders: number;
+  escalations: number;
+  delivered: number;
+  failed: number;
+}
+
+export class ReminderService {
+  @requireAuth()
+  @requirePermission("transfers:state")
+  static async sendRideReminders(): Promise<RideReminderReport> {
+    return ReminderService.runRideReminders();
+  }
+
+  /**
+   * Send due ride reminders and escalate confirmed rides without a driver.
+   * Runs every 5 minutes from cron. Per transfer only the closest due
+   * reminder is sent (a ride booked 30 minutes ahead gets the 1h reminder,
+   * not the 24h one too); the skipped ones are recorded as well.
+   */
+  static async runRideReminders(
+    now: Date = new Date()
+  ): Promise<RideReminderReport> {
+    const env: any = getEnv();
+    const reminders = parseRideReminders(env?.RIDE_REMINDER_MINUTES).sort(
+      (a, b) => a.minutesBefore - b.minutesBefore
+    );
+    const escalationMinutes =
+      Number(env?.UNASSIGNED_ESCALATION_MINUTES) ||
+      DEFAULT_UNASSIGNED_ESCALATION_MINUTES;
+
+    const lookahead = Math.max(
+      escalationMinutes,
+      ...reminders.map((r) => r.minutesBefore)
+    );
+    const rows = await TransferService.findTransfers({
+      fromDateISO: localDateISO(now),
+      toDateISO: localDateISO(new Date(now.getTime() + lookahead * 60_000))
+    });
+
+    const report: RideReminderReport = {
+      checked: 0,
+      reminders: 0,
+      escalations: 0,
+      delivered: 0,
+      failed: 0
+    };
+
+    for (const row of rows) {
+      if (!DRIVER_ACTIVE_STATES.includes(row.state)) continue;
+      const startsAt = rideStartsAt(row.rideDateISO, row.rideTime);
+      if (!startsAt || startsAt <= now) continue;
+
+      report.checked++;
+      const minutesLeft = (startsAt.getTime() - now.getTime()) / 60_000;
+
+      const due = reminders.filter((r) => minutesLeft <= r.minutesBefore);
+      if (due.length) {
+        const result = await ReminderService.remind(row, due);
+        if (result) {
+          report.reminders++;
+          report.delivered += result.delivered;
+          report.failed += result.failed;
+        }
+      }
+
+      if (
+        row.state === "confirmed" &&
+        !row.driverId &&
+        minutesLeft <= escalationMinutes &&
+        (await D1Service.claimTransferReminder(
+          row.transferId,
+          UNASSIGNED_ESCALATION_KIND
+        ))
+      ) {
+        const result = await NotificationService.notifyTransferReminder(
+          "unassigned",
+          ["dispatch"],
+          row
+        );
+        report.escalations++;
+        report.delivered += result.delivered;
+        report.failed += result.failed;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * `due` is sorted closest first. Claims all of them; sends the first one
+   * if it wasn't sent before.
+   */
+  private static async remind(row: TransferRow, due: RideReminder[]) {
+    const [closest, ...older] = due;
+    const claimed = await D1Service.claimTransferReminder(
+      row.transferId,
+      closest.kind
+    );
+    for (const reminder of older) {
+      await D1Service.claimTransferReminder(row.transferId, reminder.kind);
+    }
+    if (!claimed) return null;
+
+    return NotificationService.notifyTransferReminder(
+      "reminder",
+      closest.audiences,
+      row
+    );
+  }
+}
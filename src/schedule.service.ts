@@ -0,0 +1,203 @@
+// src/schedule.service.ts
+import { requireAuth } from "@getcronit/pylon";
+import { InvalidInputError, NotFoundError } from "./errors/general.errors";
+import {
+  assertPermission,
+  currentUserId,
+  requirePermission
+} from "./utils/authorization";
+import { isValidTime } from "./utils/notificationPreferences";
+import {
+  AbsenceEntry,
+  AbsenceKind,
+  ShiftRule,
+  unavailability,
+  Unavailability
+} from "./utils/driverAvailability";
+import { D1Service } from "./d1.service";
+
+export type DriverShiftInput = {
+  weekday: number; // 1 = Monday … 7 = Sunday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, before startTime = ends next day
+  validFrom?: string; // YYYY-MM-DD
+  validUntil?: string; // YYYY-MM-DD
+};
+
+export type DriverAbsenceInput = {
+  kind: AbsenceKind;
+  startDateISO: string;
+  endDateISO: string;
+  note?: string;
+};
+
+export interface DriverSchedule {
+  driverId: string;
+  shifts: (ShiftRule & { id: number })[];
+  absences: (AbsenceEntry & { id: number; note: string | null })[];
+}
+
+const DATE_ISO = /^\d{4}-\d{2}-\d{2}$/;
+const ABSENCE_KINDS: AbsenceKind[] = ["vacation", "sickLeave", "other"];
+
+// Drivers manage their own entries, dispatch everybody's
+async function assertScheduleAccess(driverId: string) {
+  await assertPermission(
+    driverId === currentUserId() ? "transfers:drive" : "drivers:schedule"
+  );
+}
+
+function assertDate(value: string | undefined, label: string) {
+  if (value !== undefined && !DATE_ISO.test(value)) {
+    throw new InvalidInputError(`${label} must be YYYY-MM-DD`);
+  }
+}
+
+export class ScheduleService {
+  /**
+   * Shifts and absences of one driver; absences limited to the range if
+   * given.
+   */
+  @requireAuth()
+  static async getDriverSchedule(
+    driverId: string,
+    fromDateISO?: string,
+    toDateISO?: string
+  ): Promise<DriverSchedule> {
+    await assertScheduleAccess(driverId);
+    assertDate(fromDateISO, "fromDateISO");
+    assertDate(toDateISO, "toDateISO");
+
+    const [schedule] = await ScheduleService.schedulesFor([driverId], {
+      fromDateISO,
+      toDateISO
+    });
+    return schedule;
+  }
+
+  /**
+   * Every driver with shifts or absences in the range.
+   */
+  @requireAuth()
+  @requirePermission("drivers:schedule")
+  static async getDriverSchedules(
+    fromDateISO: string,
+    toDateISO: string
+  ): Promise<DriverSchedule[]> {
+    assertDate(fromDateISO, "fromDateISO");
+    assertDate(toDateISO, "toDateISO");
+    return ScheduleService.schedulesFor(undefined, { fromDateISO, toDateISO });
+  }
+
+  @requireAuth()
+  static async addDriverShift(driverId: string, input: DriverShiftInput) {
+    await assertScheduleAccess(driverId);
+
+    const { weekday } = input;
+    if (!Number.isInteger(weekday) || weekday < 1 || weekday > 7) {
+      throw new InvalidInputError("weekday must be 1 (Monday) to 7 (Sunday)");
+    }
+    if (!isValidTime(input.startTime) || !isValidTime(input.endTime)) {
+      throw new InvalidInputError("startTime / endTime must use HH:mm");
+    }
+    if (input.startTime === input.endTime) {
+      throw new InvalidInputError("A shift cannot start and end at once");
+    }
+    assertDate(input.validFrom, "validFrom");
+    assertDate(input.validUntil, "validUntil");
+    const { validFrom, validUntil } = input;
+    if (validFrom && validUntil && validUntil < validFrom) {
+      throw new InvalidInputError("validUntil is before validFrom");
+    }
+
+    return D1Service.createDriverShift({
+      driverId,
+      weekday,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      validFrom: validFrom ?? null,
+      validUntil: validUntil ?? null
+    });
+  }
+
+  @requireAuth()
+  static async removeDriverShift(driverId: string, shiftId: number) {
+    await assertScheduleAccess(driverId);
+    if (!(await D1Service.deleteDriverShift(driverId, shiftId))) {
+      throw new NotFoundError(`Shift ${shiftId} not found`);
+    }
+    return true;
+  }
+
+  @requireAuth()
+  static async addDriverAbsence(driverId: string, input: DriverAbsenceInput) {
+    await assertScheduleAccess(driverId);
+
+    if (!ABSENCE_KINDS.includes(input.kind)) {
+      throw new InvalidInputError(
+        `kind must be one of ${ABSENCE_KINDS.join(", ")}`
+      );
+    }
+    assertDate(input.startDateISO, "startDateISO");
+    assertDate(input.endDateISO, "endDateISO");
+    if (input.endDateISO < input.startDateISO) {
+      throw new InvalidInputError("endDateISO is before startDateISO");
+    }
+
+    return D1Service.createDriverAbsence({
+      driverId,
+      kind: input.kind,
+      startDateISO: input.startDateISO,
+      endDateISO: input.endDateISO,
+      note: input.note?.trim() || null
+    });
+  }
+
+  @requireAuth()
+  static async removeDriverAbsence(driverId: string, absenceId: number) {
+    await assertScheduleAccess(driverId);
+    if (!(await D1Service.deleteDriverAbsence(driverId, absenceId))) {
+      throw new NotFoundError(`Absence ${absenceId} not found`);
+    }
+    return true;
+  }
+
+  /**
+   * Why `driverId` can't drive at local `dateISO` `time`, or null.
+   * Used by TransferService.assignDriver.
+   */
+  static async driverUnavailability(
+    driverId: string,
+    dateISO: string,
+    time: string
+  ): Promise<Unavailability | null> {
+    const [schedule] = await ScheduleService.schedulesFor([driverId], {
+      fromDateISO: dateISO.slice(0, 10),
+      toDateISO: dateISO.slice(0, 10)
+    });
+    return unavailability(schedule, dateISO, time);
+  }
+
+  /**
+   * With `driverIds` one entry per id (possibly empty), otherwise one per
+   * driver that has any entry.
+   */
+  static async schedulesFor(
+    driverIds: string[] | undefined,
+    range?: { fromDateISO?: string; toDateISO?: string }
+  ): Promise<DriverSchedule[]> {
+    const [shifts, absences] = await Promise.all([
+      D1Service.listDriverShifts(driverIds),
+      D1Service.listDriverAbsences({ driverIds, ...range })
+    ]);
+
+    const ids =
+      driverIds ??
+      [...new Set([...shifts, ...absences].map((e) => e.driverId))].sort();
+    return ids.map((driverId) => ({
+      driverId,
+      shifts: shifts.filter((s) => s.driverId === driverId),
+      absences: absences.filter((a) => a.driverId === driverId)
+    }));
+  }
+}
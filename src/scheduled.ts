@@ -0,0 +1,84 @@
+// src/scheduled.ts
+import { asyncContext } from "@getcronit/pylon";
+import { TransferService } from "./transfer.service";
+import { ReconcileService } from "./reconcile.service";
+import { NotificationService } from "./notification.service";
+import { ReminderService } from "./reminder.service";
+import { BroadcastService } from "./broadcast.service";
+import { SuggestionService } from "./suggestion.service";
+
+type CronJob = { name: string; run: () => Promise<unknown> };
+
+/**
+ * Jobs per cron expression. Keep in sync with [triggers] in wrangler.toml.
+ */
+const CRON_JOBS: Record<string, CronJob[]> = {
+  "*/5 * * * *": [
+    {
+      name: "processSheetsOutbox",
+      run: () => TransferService.runSheetsOutbox()
+    },
+    {
+      name: "flushDeferredNotifications",
+      run: () => NotificationService.flushDeferredNotifications()
+    },
+    {
+      name: "sendRideReminders",
+      run: () => ReminderService.runRideReminders()
+    },
+    {
+      name: "sendScheduledBroadcasts",
+      run: () => BroadcastService.runScheduledBroadcasts()
+    },
+    {
+      name: "autoAssignDrivers",
+      run: () => SuggestionService.autoAssignFromCron()
+    }
+  ],
+  "30 2 * * *": [
+    {
+      name: "reconcileTransfers",
+      run: () => ReconcileService.reconcileFromCron()
+    }
+  ]
+};
+
+/**
+ * Services read env and per-request caches through Pylon's asyncContext
+ * (getEnv / getContext). Cron invocations have no Hono request, so the jobs
+ * get a minimal stand-in that offers the same env / get / set surface.
+ */
+function cronContext(env: Env, executionCtx: ExecutionContext) {
+  const vars = new Map<string, unknown>();
+  return {
+    env,
+    executionCtx,
+    get: (key: string) => vars.get(key),
+    set: (key: string, value: unknown) => {
+      vars.set(key, value);
+    }
+  };
+}
+
+export async function scheduled(
+  controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext
+) {
+  const jobs = CRON_JOBS[controller.cron] ?? [];
+  if (!jobs.length) {
+    console.warn("No jobs registered for cron", controller.cron);
+    return;
+  }
+
+  await asyncContext.run(cronContext(env, ctx) as any, async () => {
+    for (const job of jobs) {
+      try {
+        const result = await job.run();
+        console.log(`Cron job ${job.name} finished`, result);
+      } catch (err) {
+        console.error(`Cron job ${job.name} failed`, err);
+      }
+    }
+  });
+}
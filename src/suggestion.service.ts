@@ -0,0 +1,320 @@
+// src/suggestion.service.ts
+import { getEnv, requireAuth } from "@getcronit/pylon";
+import { InvalidInputError, NotFoundError } from "./errors/general.errors";
+import { requirePermission } from "./utils/authorization";
+import { D1Service } from "./d1.service";
+import { ScheduleService, DriverSchedule } from "./schedule.service";
+import { TransferRow, TransferService } from "./transfer.service";
+import { UserService } from "./user.service";
+import {
+  durationLookup,
+  findConflicts,
+  normalizePlace,
+  rideWindow,
+  RideWindow,
+  shiftDateISO
+} from "./utils/dispatchConflicts";
+import { unavailability } from "./utils/driverAvailability";
+import {
+  declinedDrivers,
+  ROUTE_LOOKBACK_DAYS,
+  scoreDriver,
+  SuggestionReason
+} from "./utils/driverSuggestions";
+import { rideStartsAt } from "./utils/rideReminders";
+import { DRIVER_ACTIVE_STATES } from "./utils/transferStateMachine";
+import { parseVehicleClass, VehicleClass } from "./utils/vehicleClasses";
+
+export interface DriverSuggestion {
+  driverId: string;
+  driverName: string | null;
+  score: number;
+  // False if assignDriver would refuse the driver
+  eligible: boolean;
+  reasons: SuggestionReason[];
+}
+
+export interface AutoAssignResult {
+  transferId: string;
+  driverId: string | null; // null = no eligible driver above minScore
+  score: number | null;
+  error?: string;
+}
+
+// Rides counted as load / history (open or driven)
+const LOAD_STATES = [...DRIVER_ACTIVE_STATES, "complete"];
+
+const DAY_MS = 24 * 60 * 60_000;
+
+type Driver = { id: string; name: string | null };
+
+interface RankingContext {
+  drivers: Driver[];
+  rows: TransferRow[]; // LOAD_STATES only
+  schedules: Map<string, DriverSchedule>;
+  duration: (pickup: string, dropoff: string) => number;
+  declined: Map<string, Set<string>>; // transferId -> drivers who declined
+}
+
+// Rides from before the fleet registry only have the free-text name
+function vehicleClassOf(row: TransferRow): VehicleClass | null {
+  return row.vehicleClass ?? parseVehicleClass(row.vehicle);
+}
+
+function sameRoute(a: TransferRow, b: TransferRow): boolean {
+  const [ap, ad, bp, bd] = [a.pickup, a.dropoff, b.pickup, b.dropoff].map(
+    normalizePlace
+  );
+  return (ap === bp && ad === bd) || (ap === bd && ad === bp);
+}
+
+export class SuggestionService {
+  /**
+   * Drivers ranked for a ride, best first (eligible before ineligible),
+   * each with the reasons behind the score.
+   */
+  @requireAuth()
+  @requirePermission("transfers:assign")
+  static async suggestDrivers(transferId: string): Promise<DriverSuggestion[]> {
+    const row = await TransferService.findTransfer(transferId);
+    if (!row) throw new NotFoundError(`Transfer ${transferId} not found`);
+
+    const ctx = await SuggestionService.loadContext(
+      row.rideDateISO,
+      row.rideDateISO,
+      [transferId]
+    );
+    return SuggestionService.rank(row, ctx);
+  }
+
+  /**
+   * Assign the top eligible suggestion to every unassigned open ride
+   * starting within `withinHours`, if its score reaches `minScore`.
+   */
+  @requireAuth()
+  @requirePermission("transfers:assign")
+  static async autoAssignDrivers(
+    withinHours: number,
+    minScore?: number
+  ): Promise<AutoAssignResult[]> {
+    if (!(withinHours > 0)) {
+      throw new InvalidInputError("withinHours must be positive");
+    }
+    return SuggestionService.runAutoAssign(withinHours, minScore ?? 0);
+  }
+
+  /**
+   * Cron: auto-assign if AUTO_ASSIGN_WITHIN_HOURS is configured.
+   */
+  static async autoAssignFromCron(): Promise<AutoAssignResult[]> {
+    const env: any = getEnv();
+    const withinHours = Number(env?.AUTO_ASSIGN_WITHIN_HOURS);
+    if (!(withinHours > 0)) return [];
+    return SuggestionService.runAutoAssign(
+      withinHours,
+      Number(env?.AUTO_ASSIGN_MIN_SCORE) || 0
+    );
+  }
+
+  static async runAutoAssign(
+    withinHours: number,
+    minScore: number,
+    now: Date = new Date()
+  ): Promise<AutoAssignResult[]> {
+    const until = new Date(now.getTime() + withinHours * 60 * 60_000);
+    const fromDateISO = now.toISOString().slice(0, 10);
+    const toDateISO = shiftDateISO(until.toISOString(), 1);
+
+    const candidates = (
+      await TransferService.findTransfers({ fromDateISO, toDateISO })
+    ).filter((r) => {
+      if (r.driverId || !DRIVER_ACTIVE_STATES.includes(r.state)) return false;
+      const startsAt = rideStartsAt(r.rideDateISO, r.rideTime);
+      return !!startsAt && startsAt > now && startsAt <= until;
+    });
+    if (!candidates.length) return [];
+
+    const ctx = await SuggestionService.loadContext(
+      fromDateISO,
+      toDateISO,
+      candidates.map((r) => r.transferId)
+    );
+    const results: AutoAssignResult[] = [];
+
+    for (const row of candidates) {
+      const [best] = SuggestionService.rank(row, ctx);
+      if (!best?.eligible || best.score < minScore) {
+        results.push({
+          transferId: row.transferId,
+          driverId: null,
+          score: null
+        });
+        continue;
+      }
+
+      try {
+        await TransferService.applyDriverAssignment(
+          row.transferId,
+          best.driverId,
+          { note: `auto-assigned, score ${best.score}` }
+        );
+        // Later rides in this run see the new load / conflicts
+        ctx.rows.push({ ...row, driverId: best.driverId });
+        results.push({
+          transferId: row.transferId,
+          driverId: best.driverId,
+          score: best.score
+        });
+      } catch (e) {
+        results.push({
+          transferId: row.transferId,
+          driverId: null,
+          score: best.score,
+          error: e instanceof Error ? e.message : String(e)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Drivers, schedules and the rides needed for load, conflicts and route
+   * history of rides between `fromDateISO` and `toDateISO`, plus who
+   * declined the rides to be ranked.
+   */
+  private static async loadContext(
+    fromDateISO: string,
+    toDateISO: string,
+    transferIds: string[]
+  ): Promise<RankingContext> {
+    const monthStart = `${fromDateISO.slice(0, 7)}-01`;
+    const historyStart = shiftDateISO(fromDateISO, -ROUTE_LOOKBACK_DAYS);
+
+    const [users, rows, estimates, declines] = await Promise.all([
+      UserService.listUsersByRole("driver", 1000),
+      TransferService.findTransfers({
+        fromDateISO: historyStart < monthStart ? historyStart : monthStart,
+        toDateISO: shiftDateISO(toDateISO, 31)
+      }),
+      D1Service.listRideDurationEstimates(),
+      D1Service.listTransferDeclines(transferIds)
+    ]);
+
+    const drivers = users.map((u) => ({
+      id: u.id,
+      name:
+        u.human?.profile?.displayName ||
+        `${u.human?.profile?.firstName ?? ""} ${
+          u.human?.profile?.lastName ?? ""
+        }`.trim() ||
+        null
+    }));
+    const schedules = await ScheduleService.schedulesFor(
+      drivers.map((d) => d.id),
+      { fromDateISO, toDateISO }
+    );
+
+    return {
+      drivers,
+      rows: rows.filter((r) => LOAD_STATES.includes(r.state)),
+      schedules: new Map(schedules.map((s) => [s.driverId, s])),
+      duration: durationLookup(estimates),
+      declined: declinedDrivers(declines)
+    };
+  }
+
+  private static rank(
+    row: TransferRow,
+    ctx: RankingContext
+  ): DriverSuggestion[] {
+    const day = row.rideDateISO.slice(0, 10);
+    const month = day.slice(0, 7);
+    const rideDay = new Date(`${day}T00:00:00Z`).getTime();
+    const vehicleClass = vehicleClassOf(row);
+
+    const others = ctx.rows.filter((r) => r.transferId !== row.transferId);
+    const monthCount = new Map<string, number>();
+    for (const r of others) {
+      if (r.driverId && r.rideDateISO.startsWith(month)) {
+        monthCount.set(r.driverId, (monthCount.get(r.driverId) ?? 0) + 1);
+      }
+    }
+    const maxRidesThisMonth = Math.max(0, ...monthCount.values());
+
+    const rowWindow = rideWindow(row, ctx.duration(row.pickup, row.dropoff));
+
+    const declined = ctx.declined.get(row.transferId);
+    const drivers = ctx.drivers.filter((d) => !declined?.has(d.id));
+
+    const suggestions = drivers.map((driver): DriverSuggestion => {
+      const own = others.filter((r) => r.driverId === driver.id);
+      const schedule = ctx.schedules.get(driver.id);
+
+      const conflictingTransferIds = rowWindow
+        ? findConflicts([
+            rowWindow,
+            ...own
+              .filter((r) => DRIVER_ACTIVE_STATES.includes(r.state))
+              .map((r) => rideWindow(r, ctx.duration(r.pickup, r.dropoff)))
+              .filter((w): w is RideWindow => !!w)
+          ])
+            .filter(
+              (c) =>
+                c.transferId === row.transferId ||
+                c.otherTransferId === row.transferId
+            )
+            .map((c) =>
+              c.transferId === row.transferId
+                ? c.otherTransferId
+                : c.transferId
+            )
+        : [];
+
+      const history = own.filter(
+        (r) => r.state !== "pending" && r.rideDateISO.slice(0, 10) < day
+      );
+      const driven = new Set(
+        history
+          .map(vehicleClassOf)
+          .filter((c): c is VehicleClass => !!c)
+      );
+      const lastOnRoute = history
+        .filter((r) => sameRoute(r, row))
+        .map((r) => r.rideDateISO.slice(0, 10))
+        .sort()
+        .pop();
+
+      const { score, eligible, reasons } = scoreDriver({
+        conflictingTransferIds,
+        unavailable: schedule
+          ? unavailability(schedule, row.rideDateISO, row.rideTime)
+          : null,
+        hasShifts: !!schedule?.shifts.length,
+        vehicleMatches:
+          vehicleClass && driven.size ? driven.has(vehicleClass) : null,
+        ridesThatDay: own.filter((r) => r.rideDateISO.startsWith(day)).length,
+        ridesThisMonth: monthCount.get(driver.id) ?? 0,
+        maxRidesThisMonth,
+        daysSinceRoute: lastOnRoute
+          ? Math.round(
+              (rideDay - new Date(`${lastOnRoute}T00:00:00Z`).getTime()) /
+                DAY_MS
+            )
+          : null
+      });
+
+      return {
+        driverId: driver.id,
+        driverName: driver.name,
+        score,
+        eligible,
+        reasons
+      };
+    });
+
+    return suggestions.sort(
+      (a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score
+    );
+  }
+}
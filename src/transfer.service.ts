@@ -1,12 +1,62 @@
 import { getContext, getEnv, requireAuth } from "@getcronit/pylon";
 import validator from "validator";
 import { UserService } from "./user.service";
-import { D1Service } from "./d1.service";
+import { NotificationService } from "./notification.service";
+import { D1Service, D1TransferInput, RideProgress } from "./d1.service";
+import {
+  AuthorizationError,
+  InvalidInputError
+} from "./errors/general.errors";
+import {
+  DriverDoubleBookedError,
+  DriverUnavailableError,
+  InvalidTransferTransitionError,
+  VehicleClassMismatchError,
+  VehicleDoubleBookedError
+} from "./errors/transfer.errors";
+import { VehicleNotFoundError } from "./errors/fleet.errors";
+import { DispatchService } from "./dispatch.service";
+import { ScheduleService } from "./schedule.service";
+import { PricingService } from "./pricing.service";
+import { BillingService } from "./billing.service";
+import {
+  DEFAULT_LOCALE,
+  formatAmount
+} from "./utils/notificationTemplates";
+import {
+  BillingRules,
+  germanMonthLabel,
+  isVoucherPayment,
+  resolveBillingRules,
+  statementDateISO
+} from "./utils/billingRules";
+import { TransferEvent } from "./utils/transferNotifications";
+import {
+  parseVehicleClass,
+  VEHICLE_CLASS_LABELS,
+  VEHICLE_CLASSES,
+  VehicleClass,
+  vehicleDisplayName
+} from "./utils/vehicleClasses";
+import {
+  currentUserId,
+  hasPermission,
+  requirePermission
+} from "./utils/authorization";
+import {
+  assertProgress,
+  assertTransition,
+  DECLINABLE_PROGRESS,
+  DRIVER_ACTIVE_STATES,
+  INITIAL_TRANSFER_STATE
+} from "./utils/transferStateMachine";
+import { DECLINED_REASON } from "./utils/driverSuggestions";
 import {
   COLOR,
   MONTH_HEADERS_VISIBLE,
   MONTH_TOTAL_COLUMNS,
-  monthlyRowFormulas_SQL
+  monthlyRowFormulas_SQL,
+  parseSheetAmount
 } from "./utils/sheetsFormatting";
 
 // ---------- Domain ----------
@@ -35,14 +85,19 @@ export interface TransferRow extends TransferInput {
   driverId?: string; // driver is also a user → stores userId
   driverName?: string; // resolved at assignment
   state: TransferState; // nur im Master
+  rideProgress?: RideProgress; // driver sub-state, D1 only
+  vehicleClass?: VehicleClass; // booked class, D1 only
+  vehicleId?: string; // assigned vehicle, D1 only
+  quotedEUR?: number; // automatic quote at creation, D1 only
   requestedAtISO: string;
+  updatedAtISO?: string; // last D1 write that was projected
 }
 
 type SheetValue = string | number | boolean | null;
 
 // ---------- Config ----------
 const MASTER_TITLE = "AllRequests";
-// New header layout (A..O)
+// New header layout (A..P)
 const MASTER_HEADERS = [
   "transferId", // A
   "customerId", // B (renamed from userId)
@@ -58,9 +113,13 @@ const MASTER_HEADERS = [
   "driverId", // L (userId of driver)
   "driverName", // M (human readable)
   "state", // N
-  "requestedAtISO" // O
+  "requestedAtISO", // O
+  "updatedAtISO" // P (D1 updatedAtISO at projection time)
 ];
 
+// Rows written before column P existed end at O
+const MASTER_MIN_COLUMNS = 15;
+
 // ---------- Base64URL & PEM helpers ----------
 const te = new TextEncoder();
 
@@ -431,7 +490,7 @@ async function migrateMasterIfNeeded(accessToken: string) {
 
 // ---------- Mapping ----------
 function rowToTransfer(row: SheetValue[]): TransferRow | null {
-  if (!row || row.length < MASTER_HEADERS.length) return null;
+  if (!row || row.length < MASTER_MIN_COLUMNS) return null;
   const [
     transferId,
     customerId,
@@ -447,8 +506,9 @@ function rowToTransfer(row: SheetValue[]): TransferRow | null {
     driverId,
     driverName,
     state,
-    requestedAtISO
-  ] = row.map((v) => (v ?? "") as string);
+    requestedAtISO,
+    updatedAtISO
+  ] = row.map((v) => String(v ?? ""));
 
   return {
     transferId,
@@ -460,12 +520,14 @@ function rowToTransfer(row: SheetValue[]): TransferRow | null {
     dropoff,
     roomOrName,
     vehicle,
-    amountEUR: amountEUR ? Number(amountEUR) : undefined,
+    // NaN for text that is no amount; callers must not store it
+    amountEUR: amountEUR ? parseSheetAmount(amountEUR) : undefined,
     payment,
     driverId: driverId || undefined,
     driverName: driverName || undefined,
     state: state as TransferState,
-    requestedAtISO
+    requestedAtISO,
+    updatedAtISO: updatedAtISO || undefined
   };
 }
 
@@ -485,7 +547,8 @@ function transferToMasterRow(t: TransferRow): SheetValue[] {
     t.driverId ?? "",
     t.driverName ?? "",
     t.state,
-    t.requestedAtISO
+    t.requestedAtISO,
+    t.updatedAtISO ?? ""
   ];
 }
 
@@ -497,6 +560,10 @@ function d1RecordToTransferRow(rec: any): TransferRow {
       : typeof rec?.requestedAtISO === "string"
       ? rec.requestedAtISO
       : new Date().toISOString();
+  const updatedAt =
+    rec?.updatedAtISO instanceof Date
+      ? rec.updatedAtISO.toISOString()
+      : rec?.updatedAtISO ?? undefined;
 
   return {
     transferId: rec.transferId,
@@ -508,12 +575,17 @@ function d1RecordToTransferRow(rec: any): TransferRow {
     dropoff: rec.dropoff,
     roomOrName: rec.roomOrName ?? undefined,
     vehicle: rec.vehicle ?? undefined,
+    vehicleClass: rec.vehicleClass ?? undefined,
+    vehicleId: rec.vehicleId ?? undefined,
     amountEUR: typeof rec.amountEUR === "number" ? rec.amountEUR : undefined,
+    quotedEUR: typeof rec.quotedEUR === "number" ? rec.quotedEUR : undefined,
     payment: rec.payment ?? undefined,
     driverId: rec.driverId ?? undefined,
     driverName: rec.driverName ?? undefined,
     state: (rec.state ?? "pending") as TransferState,
-    requestedAtISO: requestedAt
+    rideProgress: rec.rideProgress ?? undefined,
+    requestedAtISO: requestedAt,
+    updatedAtISO: updatedAt
   };
 }
 
@@ -536,27 +608,6 @@ function monthKeyFromISO(dateISO: string): string {
   return dateISO.slice(0, 7); // YYYY-MM
 }
 
-function germanMonthLabel(yyyymm: string) {
-  const [yStr, mStr] = yyyymm.split("-");
-  const y = Number(yStr);
-  const m = Number(mStr);
-  const names = [
-    "JÄNNER",
-    "FEBRUAR",
-    "MÄRZ",
-    "APRIL",
-    "MAI",
-    "JUNI",
-    "JULI",
-    "AUGUST",
-    "SEPTEMBER",
-    "OKTOBER",
-    "NOVEMBER",
-    "DEZEMBER"
-  ];
-  return `${names[m - 1]} ${y}`;
-}
-
 function monthSheetTitle(userId: string, yyyymm: string) {
   return `USR_${userId}_${yyyymm}`;
 }
@@ -575,18 +626,6 @@ async function findMasterRowIndexByTransferId(
   return null;
 }
 
-async function getMasterRowWithIndex(
-  transferId: string,
-  accessToken: string
-): Promise<{ rowIdx: number | null; row: TransferRow | null }> {
-  const idx = await findMasterRowIndexByTransferId(transferId, accessToken);
-  if (!idx) return { rowIdx: null, row: null };
-  const range = `${MASTER_TITLE}!A${idx}:${colLetter(MASTER_HEADERS.length)}${idx}`;
-  const { values } = await valuesGet(range, accessToken);
-  const row = values?.[0] ? rowToTransfer(values[0]) : null;
-  return { rowIdx: idx, row };
-}
-
 // ---------- Monthly helpers ----------
 async function findMonthlyRowIndexByTransferId(
   sheetTitle: string,
@@ -921,9 +960,16 @@ async function sortMonthlySheetChronologically(
 }
 
 // ---------- Totals / spacer handling ----------
+/**
+ * Totals block below the rows of a monthly sheet. VAT, early-payment
+ * discount and the voucher payment come from `rules`; the discount row is
+ * left out when there is none. Run by refreshMonthlySheet after the Apps
+ * Script, which only knows the default rates.
+ */
 async function refreshMonthlyTotals(
   sheetTitle: string,
   accessToken: string,
+  rules: BillingRules,
   dataCountHint?: number
 ) {
   const argSep = await getFormulaArgSep(accessToken);
@@ -944,7 +990,7 @@ async function refreshMonthlyTotals(
       if (amount !== "" || payment !== "") {
         dataCount++;
       }
-      if (payment === "Gutschein") {
+      if (isVoucherPayment(payment, rules)) {
         voucherExists = true;
       }
     }
@@ -971,8 +1017,10 @@ async function refreshMonthlyTotals(
   cursor++;
   const vatRow = cursor;
   cursor++;
-  const discountedRow = cursor;
-  cursor++;
+  const discountPercent = rules.earlyPaymentDiscountPercent;
+  const discountedRow = discountPercent > 0 ? cursor : null;
+  if (discountedRow) cursor++;
+  const lastTotalsRow = discountedRow ?? vatRow;
 
   const amountCol = "H";
   const paymentCol = "I";
@@ -980,12 +1028,15 @@ async function refreshMonthlyTotals(
   const round2 = (expr: string) =>
     argSep === ";" ? `ROUND(${expr};2)` : `ROUND(${expr},2)`;
 
+  const voucherCriterion = rules.voucherPayment.replace(/"/g, '""');
+  const percentLabel = (p: number) => `${String(p).replace(".", ",")}%`;
+
   const sumInner =
     dataCount > 0 ? `SUM(${amountCol}4:${amountCol}${lastDataRow})` : `0`;
 
   const voucherInner =
     dataCount > 0
-      ? `SUMIF(${paymentCol}4:${paymentCol}${lastDataRow}${argSep}"Gutschein"${argSep}${amountCol}4:${amountCol}${lastDataRow})`
+      ? `SUMIF(${paymentCol}4:${paymentCol}${lastDataRow}${argSep}"${voucherCriterion}"${argSep}${amountCol}4:${amountCol}${lastDataRow})`
       : `0`;
 
   const sumFormula = `=${round2(sumInner)}`;
@@ -993,11 +1044,11 @@ async function refreshMonthlyTotals(
   const netInner = `H${sumRow}-${voucherExists ? `H${voucherRow!}` : "0"}`;
   const netFormula = `=${round2(netInner)}`;
 
-  const vatPercent = 10;
+  const vatPercent = rules.transportVatPercent;
   const vatInner = `H${netRow}*(1+${vatPercent}/100)`;
   const vatFormula = `=${round2(vatInner)}`;
 
-  const discInner = `H${netRow}*(1-4/100)*(1+${vatPercent}/100)`;
+  const discInner = `H${netRow}*(1-${discountPercent}/100)*(1+${vatPercent}/100)`;
   const discFormula = `=${round2(discInner)}`;
 
   const batchData: { range: string; values: SheetValue[][] }[] = [];
@@ -1039,15 +1090,26 @@ async function refreshMonthlyTotals(
     values: [[`Rechnungsbetrag nach Abzug Gutscheine:`, "", netFormula]]
   });
 
+  const vatLabel = `Gesamt Rechnungsbetrag inkl. ${percentLabel(
+    vatPercent
+  )} MwSt`;
   batchData.push({
     range: `${sheetTitle}!F${vatRow}:H${vatRow}`,
-    values: [[`Gesamt Rechnungsbetrag inkl. 10% MwSt:`, "", vatFormula]]
+    values: [[`${vatLabel}:`, "", vatFormula]]
   });
 
-  batchData.push({
-    range: `${sheetTitle}!F${discountedRow}:H${discountedRow}`,
-    values: [[`Gesamt Rechnungsbetrag inkl. 10% MwSt mit 4% Rabatt:`, "", discFormula]]
-  });
+  if (discountedRow) {
+    batchData.push({
+      range: `${sheetTitle}!F${discountedRow}:H${discountedRow}`,
+      values: [
+        [
+          `${vatLabel} mit ${percentLabel(discountPercent)} Rabatt:`,
+          "",
+          discFormula
+        ]
+      ]
+    });
+  }
 
   await valuesBatchUpdate(batchData, accessToken);
 
@@ -1081,7 +1143,7 @@ async function refreshMonthlyTotals(
         range: {
           sheetId,
           startRowIndex: sumRow - 1,
-          endRowIndex: discountedRow,
+          endRowIndex: lastTotalsRow,
           startColumnIndex: 5,
           endColumnIndex: 8
         },
@@ -1095,7 +1157,7 @@ async function refreshMonthlyTotals(
         range: {
           sheetId,
           startRowIndex: sumRow - 1,
-          endRowIndex: discountedRow,
+          endRowIndex: lastTotalsRow,
           startColumnIndex: 7,
           endColumnIndex: 8
         },
@@ -1108,13 +1170,13 @@ async function refreshMonthlyTotals(
         fields: "userEnteredFormat(numberFormat,horizontalAlignment)"
       }
     },
-    // Highlight discounted row label cells → weißer Hintergrund
+    // Highlight final total label cells → weißer Hintergrund
     {
       repeatCell: {
         range: {
           sheetId,
-          startRowIndex: discountedRow - 1,
-          endRowIndex: discountedRow,
+          startRowIndex: lastTotalsRow - 1,
+          endRowIndex: lastTotalsRow,
           startColumnIndex: 5,
           endColumnIndex: 6
         },
@@ -1150,13 +1212,13 @@ async function refreshMonthlyTotals(
         fields: "userEnteredFormat.backgroundColor"
       }
     },
-    // Double bottom border for discounted total (H)
+    // Double bottom border for the final total (H)
     {
       updateBorders: {
         range: {
           sheetId,
-          startRowIndex: discountedRow - 1,
-          endRowIndex: discountedRow,
+          startRowIndex: lastTotalsRow - 1,
+          endRowIndex: lastTotalsRow,
           startColumnIndex: 7,
           endColumnIndex: 8
         },
@@ -1189,6 +1251,28 @@ async function callAppsScriptForSheet(sheetTitle: string): Promise<void> {
   }
 }
 
+/**
+ * Let the Apps Script sort and format a monthly sheet, then write its
+ * totals with the customer's billing rules for the month.
+ */
+async function refreshMonthlySheet(
+  sheetTitle: string,
+  customerId: string,
+  yyyymm: string,
+  accessToken: string
+): Promise<void> {
+  await callAppsScriptForSheet(sheetTitle);
+  const [rules, { values }] = await Promise.all([
+    BillingService.rulesFor(customerId, statementDateISO(yyyymm)),
+    // Rows with a transferId (J); H/I also hold the previous totals
+    valuesGet(`${sheetTitle}!J4:J`, accessToken)
+  ]);
+  const dataCount = values?.length
+    ? values.filter((r) => String(r?.[0] ?? "") !== "").length
+    : 0;
+  await refreshMonthlyTotals(sheetTitle, accessToken, rules, dataCount);
+}
+
 async function tryGetUserDisplayName(
   userId: string
 ): Promise<string | undefined> {
@@ -1270,9 +1354,356 @@ async function ensureMonthlyForUser(
   return title;
 }
 
+// ---------- Sheets projection (D1 → AllRequests / monthly) ----------
+function transferRowToD1Input(t: TransferRow): D1TransferInput {
+  return {
+    transferId: t.transferId,
+    rideDateISO: t.rideDateISO,
+    rideTime: t.rideTime,
+    pickup: t.pickup,
+    dropoff: t.dropoff,
+    roomOrName: t.roomOrName,
+    vehicle: t.vehicle,
+    vehicleClass: t.vehicleClass ?? null,
+    vehicleId: t.vehicleId || null,
+    amountEUR: typeof t.amountEUR === "number" ? t.amountEUR : null,
+    quotedEUR: typeof t.quotedEUR === "number" ? t.quotedEUR : null,
+    payment: t.payment ?? null,
+    customerId: t.customerId,
+    customerName: t.customerName ?? null,
+    driverId: t.driverId || null,
+    driverName: t.driverName || null,
+    state: t.state,
+    requestedAtISO: t.requestedAtISO
+  };
+}
+
+async function loadTransferOrThrow(transferId: string): Promise<TransferRow> {
+  const rec = await D1Service.findD1Transfer(transferId);
+  if (!rec) throw new Error("transferId not found");
+  return d1RecordToTransferRow(rec);
+}
+
+async function ensureMonthlyRowForTransfer(
+  row: TransferRow,
+  accessToken: string
+) {
+  const yyyymm = monthKeyFromISO(row.rideDateISO);
+  const monthlyTitle = await ensureMonthlyForUser(
+    row.customerId,
+    yyyymm,
+    accessToken
+  );
+
+  const existingMonthlyRow = await findMonthlyRowIndexByTransferId(
+    monthlyTitle,
+    row.transferId,
+    accessToken
+  );
+
+  if (existingMonthlyRow) {
+    // Row already present → only sorting, formatting and totals
+    await refreshMonthlySheet(
+      monthlyTitle,
+      row.customerId,
+      yyyymm,
+      accessToken
+    );
+    return;
+  }
+
+  // New monthly row
+  const { values: existingJ } = await valuesGet(
+    `${monthlyTitle}!J4:J`,
+    accessToken
+  );
+  const currentCount = existingJ?.length
+    ? existingJ.filter((r) => String(r?.[0] ?? "") !== "").length
+    : 0;
+
+  const nextIdx = currentCount + 1;
+  const insertAtRow = 3 + nextIdx;
+
+  const sheetId = await sheetIdByTitle(monthlyTitle, accessToken);
+  await sheetsBatchUpdate(
+    [
+      {
+        insertDimension: {
+          range: {
+            sheetId,
+            dimension: "ROWS",
+            startIndex: insertAtRow - 1,
+            endIndex: insertAtRow
+          },
+          inheritFromBefore: true
+        }
+      }
+    ],
+    accessToken
+  );
+
+  const argSep = await getFormulaArgSep(accessToken);
+  const vals = monthlyRowFormulas_SQL(row.transferId, argSep, MASTER_TITLE);
+  vals[0] = nextIdx;
+
+  await valuesUpdate(
+    `${monthlyTitle}!A${insertAtRow}:J${insertAtRow}`,
+    [vals],
+    accessToken
+  );
+
+  await refreshMonthlySheet(monthlyTitle, row.customerId, yyyymm, accessToken);
+}
+
+/**
+ * Write the D1 state of a transfer into AllRequests (update or append) and,
+ * once completed, make sure it is listed on the customer's monthly sheet.
+ * Safe to run repeatedly for the same transfer.
+ */
+async function projectTransferToSheets(row: TransferRow) {
+  const accessToken = await googleAccessToken();
+  await ensureMaster(accessToken);
+
+  const rowIdx = await findMasterRowIndexByTransferId(
+    row.transferId,
+    accessToken
+  );
+
+  if (rowIdx) {
+    await valuesUpdate(
+      `${MASTER_TITLE}!A${rowIdx}:${colLetter(MASTER_HEADERS.length)}${rowIdx}`,
+      [transferToMasterRow(row)],
+      accessToken
+    );
+  } else {
+    await valuesAppend(
+      `${MASTER_TITLE}!A:A`,
+      [transferToMasterRow(row)],
+      accessToken
+    );
+  }
+
+  if (row.state === "complete") {
+    await ensureMonthlyRowForTransfer(row, accessToken);
+  }
+}
+
+// Outbox projector batch size / lease
+const OUTBOX_BATCH_SIZE = 25;
+const OUTBOX_LEASE_MS = 2 * 60_000;
+
+function runInBackground(task: Promise<unknown>) {
+  try {
+    getContext().executionCtx.waitUntil(task);
+  } catch {
+    // No ExecutionContext (e.g. local runtime): let the promise run detached
+    task.catch((err) => console.error("Background task failed", err));
+  }
+}
+
+/**
+ * The D1 write already queued an outbox entry; try to project it right
+ * away without making the mutation wait for Google Sheets. Anything left
+ * over is picked up by the scheduled projector.
+ */
+function kickSheetsProjection(transferId: string) {
+  runInBackground(TransferService.runSheetsOutbox({ transferId }));
+}
+
+/**
+ * Push the event to the parties involved without waiting for push endpoints.
+ * `row` is the transfer as it is after the write.
+ */
+function notifyTransfer(
+  event: TransferEvent,
+  row: TransferRow,
+  note?: string
+) {
+  runInBackground(
+    NotificationService.notifyTransferEvent(event, row, currentUserId(), note)
+  );
+}
+
+// Lifecycle event pushed when a transfer enters a state
+const STATE_EVENTS: Partial<Record<TransferState, TransferEvent>> = {
+  confirmed: "confirmed",
+  canceled: "canceled",
+  terminated: "terminated",
+  complete: "completed"
+};
+
+/**
+ * Move a transfer to `to` if the state machine allows it. The write is
+ * guarded on the state we validated against and records the transition in
+ * TransferStateChange within the same D1 batch.
+ */
+async function transitionTransfer(
+  row: TransferRow,
+  to: TransferState,
+  reason?: string
+) {
+  assertTransition(row.state, to);
+
+  await D1Service.updateD1Transfer(
+    row.transferId,
+    { state: to },
+    "stateChanged",
+    {
+      fromState: row.state,
+      toState: to,
+      actorId: currentUserId(),
+      reason: reason ?? null
+    }
+  );
+
+  const event = STATE_EVENTS[to];
+  if (event) notifyTransfer(event, { ...row, state: to });
+}
+
+/**
+ * Reads of a single transfer: its customer, its driver and transfers:read.
+ */
+async function assertCanReadTransfer(row: TransferRow) {
+  const userId = currentUserId();
+  if (
+    row.customerId !== userId &&
+    row.driverId !== userId &&
+    !(await hasPermission("transfers:read"))
+  ) {
+    throw new AuthorizationError("Not allowed to read this transfer");
+  }
+}
+
+/**
+ * Load a transfer for a driver mutation; only the assigned driver may act.
+ */
+async function loadAssignedTransfer(transferId: string): Promise<TransferRow> {
+  const userId = currentUserId();
+  const row = await loadTransferOrThrow(transferId);
+  if (!userId || row.driverId !== userId) {
+    throw new AuthorizationError(
+      "Only the assigned driver can update this ride"
+    );
+  }
+  return row;
+}
+
+/**
+ * Move the driver progress one step. Finishing the ride also completes the
+ * transfer, in the same guarded write.
+ */
+async function advanceRide(row: TransferRow, to: RideProgress) {
+  assertProgress(row.state, row.rideProgress, to);
+
+  const completes = to === "finished";
+  if (completes) assertTransition(row.state, "complete");
+  const toState: TransferState = completes ? "complete" : row.state;
+
+  await D1Service.updateD1Transfer(
+    row.transferId,
+    { rideProgress: to, ...(completes ? { state: toState } : {}) },
+    completes ? "stateChanged" : "rideProgress",
+    {
+      fromState: row.state,
+      toState,
+      fromProgress: row.rideProgress ?? null,
+      toProgress: to,
+      expectedDriverId: row.driverId,
+      actorId: currentUserId()
+    }
+  );
+
+  if (completes) {
+    notifyTransfer("completed", { ...row, state: toState, rideProgress: to });
+  }
+}
+
+/**
+ * Shared by createTransfer (dispatch, any customer) and bookTransfer
+ * (the signed-in customer). Permission checks happen in the callers;
+ * `reason` ends up on the creation entry of the state history.
+ */
+async function createTransferForCustomer(
+  customerId: string,
+  rideDateISO: string,
+  rideTime: string,
+  pickup: string,
+  dropoff: string,
+  roomOrName?: string,
+  vehicle?: string,
+  amountEUR?: number,
+  payment?: string,
+  reason = "created"
+): Promise<{ transferId: string }> {
+  if (!validator.isISO8601(rideDateISO))
+    throw new Error("Invalid rideDateISO");
+  if (!/^\d{2}:\d{2}$/.test(rideTime))
+    throw new Error("Invalid rideTime");
+  if (!customerId) throw new Error("customerId required");
+
+  // Booked by class; older clients still send the label ("Kleinbus")
+  const vehicleClass = vehicle?.trim() ? parseVehicleClass(vehicle) : null;
+  if (vehicle?.trim() && !vehicleClass) {
+    throw new InvalidInputError(
+      `vehicle must be one of ${VEHICLE_CLASSES.map(
+        (c) => VEHICLE_CLASS_LABELS[c]
+      ).join(", ")}`
+    );
+  }
+
+  // Locked / deactivated customers can't get new rides
+  await UserService.getActiveZitadelUser(customerId);
+  const displayName = await tryGetUserDisplayName(customerId);
+
+  // Pre-fills the price; an explicit amount wins but the quote is kept
+  const quote = await PricingService.quote({
+    customerId,
+    pickup,
+    dropoff,
+    rideDateISO,
+    rideTime,
+    vehicleClass: vehicleClass ?? undefined
+  }).catch((err) => {
+    console.error("Quote failed for new transfer", err);
+    return null;
+  });
+
+  const row: TransferRow = {
+    transferId: newTransferId(),
+    customerId,
+    customerName: displayName,
+    rideDateISO,
+    rideTime,
+    pickup,
+    dropoff,
+    roomOrName,
+    vehicle: vehicleClass ? vehicleDisplayName(vehicleClass) : undefined,
+    vehicleClass: vehicleClass ?? undefined,
+    amountEUR: amountEUR ?? quote?.totalEUR,
+    quotedEUR: quote?.totalEUR,
+    payment,
+    driverId: "",
+    driverName: "",
+    state: INITIAL_TRANSFER_STATE,
+    requestedAtISO: new Date().toISOString()
+  };
+
+  await D1Service.upsertD1Transfer(transferRowToD1Input(row), "created", {
+    fromState: null,
+    toState: row.state,
+    actorId: currentUserId(),
+    reason
+  });
+  kickSheetsProjection(row.transferId);
+  notifyTransfer("created", row);
+
+  return { transferId: row.transferId };
+}
+
 // ---------- Public API ----------
 export class TransferService {
-  //@requireAuth()
+  @requireAuth()
+  @requirePermission("transfers:create")
   static async createTransfer(
     customerId: string,
     rideDateISO: string,
@@ -1284,21 +1715,8 @@ export class TransferService {
     amountEUR?: number,
     payment?: string
   ): Promise<{ transferId: string }> {
-    if (!validator.isISO8601(rideDateISO))
-      throw new Error("Invalid rideDateISO");
-    if (!/^\d{2}:\d{2}$/.test(rideTime))
-      throw new Error("Invalid rideTime");
-    if (!customerId) throw new Error("customerId required");
-
-    const displayName = await tryGetUserDisplayName(customerId);
-
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
-
-    const row: TransferRow = {
-      transferId: newTransferId(),
+    return createTransferForCustomer(
       customerId,
-      customerName: displayName,
       rideDateISO,
       rideTime,
       pickup,
@@ -1306,22 +1724,16 @@ export class TransferService {
       roomOrName,
       vehicle,
       amountEUR,
-      payment,
-      driverId: "",
-      driverName: "",
-      state: "pending",
-      requestedAtISO: new Date().toISOString()
-    };
-
-    await valuesAppend(
-      `${MASTER_TITLE}!A:A`,
-      [transferToMasterRow(row)],
-      accessToken
+      payment
     );
-    return { transferId: row.transferId };
   }
 
-  //@requireAuth()
+  /**
+   * Book a ride for the signed-in customer. Admins and dispatchers may pass
+   * `onBehalfOfCustomerId`; the booking actor is kept in the state history.
+   */
+  @requireAuth()
+  @requirePermission("transfers:book")
   static async bookTransfer(
     rideDateISO: string,
     rideTime: string,
@@ -1330,14 +1742,30 @@ export class TransferService {
     roomOrName?: string,
     vehicle?: string,
     amountEUR?: number,
-    payment?: string
+    payment?: string,
+    onBehalfOfCustomerId?: string
   ): Promise<{ transferId: string }> {
-    const auth = getContext().get("auth");
-    const userId = "346402675442587254";//auth.sub as string;
-    if (!userId) throw new Error("Anonymous");
+    const userId = currentUserId();
+    if (!userId) throw new AuthorizationError("Authentication required");
 
-    return TransferService.createTransfer(
-      userId,
+    let customerId = userId;
+    let reason = "booked";
+
+    if (onBehalfOfCustomerId && onBehalfOfCustomerId !== userId) {
+      if (!(await hasPermission("transfers:create"))) {
+        throw new AuthorizationError(
+          "Only admins and dispatchers can book on behalf of another customer"
+        );
+      }
+      customerId = onBehalfOfCustomerId;
+      reason = `booked on behalf of ${customerId}`;
+    }
+
+    // The booking user must be active as well, not only the customer
+    if (customerId !== userId) await UserService.getActiveZitadelUser(userId);
+
+    return createTransferForCustomer(
+      customerId,
       rideDateISO,
       rideTime,
       pickup,
@@ -1345,14 +1773,39 @@ export class TransferService {
       roomOrName,
       vehicle,
       amountEUR,
-      payment
+      payment,
+      reason
     );
   }
 
+  /**
+   * Refuses with DriverDoubleBookedError if the driver has an overlapping
+   * open ride (see DispatchService), and with DriverUnavailableError if the
+   * ride is outside their shifts or during an absence (see ScheduleService),
+   * unless `force` is set; forced assignments are noted in the history.
+   */
+  @requireAuth()
+  @requirePermission("transfers:assign")
   static async assignDriver(
     transferId: string,
-    driverUserId: string
+    driverUserId: string,
+    force?: boolean
+  ): Promise<void> {
+    return TransferService.applyDriverAssignment(transferId, driverUserId, {
+      force
+    });
+  }
+
+  /**
+   * assignDriver without the permission check, for automatic assignment
+   * (SuggestionService). `note` is added to the history reason.
+   */
+  static async applyDriverAssignment(
+    transferId: string,
+    driverUserId: string,
+    opts?: { force?: boolean; note?: string }
   ): Promise<void> {
+    const force = !!opts?.force;
     if (!driverUserId) throw new Error("driverUserId required");
     try {
       await UserService.getZitadelUserById(driverUserId);
@@ -1362,205 +1815,451 @@ export class TransferService {
 
     const driverName = (await tryGetUserDisplayName(driverUserId)) ?? "";
 
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
-    const rowIdx = await findMasterRowIndexByTransferId(
-      transferId,
-      accessToken
-    );
-    if (!rowIdx) throw new Error("transferId not found");
+    const row = await loadTransferOrThrow(transferId);
 
-    await valuesUpdate(
-      `${MASTER_TITLE}!L${rowIdx}:M${rowIdx}`,
-      [[driverUserId, driverName]],
-      accessToken
+    const conflicts = DRIVER_ACTIVE_STATES.includes(row.state)
+      ? await DispatchService.driverConflicts(driverUserId, row)
+      : [];
+    const conflictIds = conflicts.map((c) =>
+      c.transferId === transferId ? c.otherTransferId : c.transferId
     );
+    if (conflictIds.length && !force) {
+      throw new DriverDoubleBookedError(driverUserId, conflictIds);
+    }
+
+    const unavailable = DRIVER_ACTIVE_STATES.includes(row.state)
+      ? await ScheduleService.driverUnavailability(
+          driverUserId,
+          row.rideDateISO,
+          row.rideTime
+        )
+      : null;
+    const unavailableReason = !unavailable
+      ? null
+      : unavailable.reason === "absent"
+      ? `absent (${unavailable.kind})`
+      : "outside shift";
+    if (unavailableReason && !force) {
+      throw new DriverUnavailableError(driverUserId, unavailableReason);
+    }
+
+    // Open rides wait for the driver's answer; closed rides only record who drove
+    if (!DRIVER_ACTIVE_STATES.includes(row.state)) {
+      await D1Service.updateD1Transfer(
+        transferId,
+        { driverId: driverUserId, driverName: driverName || null },
+        "driverAssigned"
+      );
+    } else {
+      await D1Service.updateD1Transfer(
+        transferId,
+        {
+          driverId: driverUserId,
+          driverName: driverName || null,
+          rideProgress: "assigned"
+        },
+        "driverAssigned",
+        {
+          fromState: row.state,
+          toState: row.state,
+          fromProgress: row.rideProgress ?? null,
+          toProgress: "assigned",
+          actorId: currentUserId(),
+          reason:
+            `assigned to ${driverName || driverUserId}` +
+            (conflictIds.length
+              ? ` (double booking with ${conflictIds.join(", ")} forced)`
+              : "") +
+            (unavailableReason ? ` (driver ${unavailableReason}, forced)` : "") +
+            (opts?.note ? ` (${opts.note})` : "")
+        }
+      );
+      notifyTransfer("driverAssigned", {
+        ...row,
+        driverId: driverUserId,
+        driverName: driverName || undefined,
+        rideProgress: "assigned"
+      });
+    }
+    kickSheetsProjection(transferId);
   }
 
-  // --- NEW: assign price in sheet + D1 ---
-  static async assignPrice(
+  /**
+   * Assign a concrete vehicle of the fleet. Refuses with
+   * VehicleClassMismatchError if it isn't of the booked class and with
+   * VehicleDoubleBookedError if it is used by an overlapping open ride,
+   * unless `force` is set. The sheets show it as e.g. "Van (W-12345A)".
+   */
+  @requireAuth()
+  @requirePermission("transfers:assign")
+  static async assignVehicle(
     transferId: string,
-    amountEUR: number
+    vehicleId: string,
+    force?: boolean
   ): Promise<void> {
-    if (typeof amountEUR !== "number" || !Number.isFinite(amountEUR)) {
-      throw new Error("amountEUR must be a finite number");
+    const vehicle = await D1Service.findVehicle(vehicleId);
+    if (!vehicle) throw new VehicleNotFoundError(vehicleId);
+    if (!vehicle.active) {
+      throw new InvalidInputError(`Vehicle ${vehicle.plate} is inactive`);
     }
 
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
+    const row = await loadTransferOrThrow(transferId);
 
-    const { rowIdx, row } = await getMasterRowWithIndex(transferId, accessToken);
-    if (!rowIdx || !row) {
-      throw new Error("transferId not found");
+    const mismatch =
+      !!row.vehicleClass && row.vehicleClass !== vehicle.vehicleClass;
+    if (mismatch && !force) {
+      throw new VehicleClassMismatchError(
+        vehicleId,
+        VEHICLE_CLASS_LABELS[row.vehicleClass!],
+        VEHICLE_CLASS_LABELS[vehicle.vehicleClass]
+      );
     }
 
-    // Update price in master sheet (column J)
-    await valuesUpdate(
-      `${MASTER_TITLE}!J${rowIdx}:J${rowIdx}`,
-      [[amountEUR]],
-      accessToken
+    const active = DRIVER_ACTIVE_STATES.includes(row.state);
+    const conflictIds = (
+      active ? await DispatchService.vehicleConflicts(vehicleId, row) : []
+    ).map((c) =>
+      c.transferId === transferId ? c.otherTransferId : c.transferId
     );
-
-    // Also persist to D1 (Prisma / SQLite)
-    try {
-      const env: any = getEnv();
-      const db = env.DB;
-      if (db && typeof db.prepare === "function") {
-        await db
-          .prepare("UPDATE Transfer SET amountEUR = ? WHERE transferId = ?")
-          .bind(amountEUR, transferId)
-          .run();
-      } else {
-        console.warn(
-          "D1 binding 'DB' not available; skipping D1 update for assignPrice"
-        );
-      }
-    } catch (err) {
-      console.error("Error updating D1 Transfer.amountEUR in assignPrice", err);
+    if (conflictIds.length && !force) {
+      throw new VehicleDoubleBookedError(vehicleId, conflictIds);
     }
-  }
 
-  static async markConfirmed(transferId: string): Promise<void> {
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
+    const patch = {
+      vehicleId,
+      // Rides booked without a class get the one of their vehicle
+      vehicleClass: row.vehicleClass ?? vehicle.vehicleClass,
+      vehicle: vehicleDisplayName(vehicle.vehicleClass, vehicle)
+    };
+    await D1Service.updateD1Transfer(
+      transferId,
+      patch,
+      "vehicleAssigned",
+      active
+        ? {
+            fromState: row.state,
+            toState: row.state,
+            actorId: currentUserId(),
+            reason:
+              `vehicle ${vehicle.plate} assigned` +
+              (mismatch ? ` (class mismatch forced)` : "") +
+              (conflictIds.length
+                ? ` (double booking with ${conflictIds.join(", ")} forced)`
+                : "")
+          }
+        : undefined
+    );
+    kickSheetsProjection(transferId);
+  }
 
-    const { rowIdx, row } = await getMasterRowWithIndex(transferId, accessToken);
-    if (!rowIdx || !row) throw new Error("transferId not found");
-    if (row.state !== "pending")
-      throw new Error("Only pending transfers can be confirmed");
+  /**
+   * Manual price, overriding the quote from creation (see PricingService).
+   * The history keeps who set which price and what was quoted.
+   */
+  @requireAuth()
+  @requirePermission("transfers:assign")
+  static async assignPrice(
+    transferId: string,
+    amountEUR: number
+  ): Promise<void> {
+    if (typeof amountEUR !== "number" || !Number.isFinite(amountEUR)) {
+      throw new Error("amountEUR must be a finite number");
+    }
 
-    await valuesUpdate(
-      `${MASTER_TITLE}!N${rowIdx}:N${rowIdx}`,
-      [["confirmed"]],
-      accessToken
+    const row = await loadTransferOrThrow(transferId);
+    await D1Service.updateD1Transfer(
+      transferId,
+      { amountEUR },
+      "priceAssigned",
+      {
+        fromState: row.state,
+        toState: row.state,
+        actorId: currentUserId(),
+        reason:
+          `price set to ${formatAmount(amountEUR, DEFAULT_LOCALE)}` +
+          (typeof row.quotedEUR === "number"
+            ? ` (quoted ${formatAmount(row.quotedEUR, DEFAULT_LOCALE)})`
+            : "")
+      }
     );
+    kickSheetsProjection(transferId);
+    notifyTransfer("priceAssigned", { ...row, amountEUR });
   }
 
   @requireAuth()
-  static async cancelTransfer(transferId: string): Promise<void> {
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
+  @requirePermission("transfers:state")
+  static async markConfirmed(
+    transferId: string,
+    reason?: string
+  ): Promise<void> {
+    const row = await loadTransferOrThrow(transferId);
+    await transitionTransfer(row, "confirmed", reason);
+    kickSheetsProjection(transferId);
+  }
 
+  @requireAuth()
+  static async cancelTransfer(
+    transferId: string,
+    reason?: string
+  ): Promise<void> {
     const auth = getContext().get("auth");
     const userId = auth.sub as string;
     if (!userId) throw new Error("Anonymous");
 
-    const { rowIdx, row } = await getMasterRowWithIndex(transferId, accessToken);
-    if (!rowIdx || !row) throw new Error("transferId not found");
-    if (row.customerId !== userId) throw new Error("Forbidden");
-    if (row.state !== "pending")
-      throw new Error("Only pending transfers can be canceled");
+    const row = await loadTransferOrThrow(transferId);
+    // Customers cancel their own rides, dispatch may cancel any
+    if (
+      row.customerId !== userId &&
+      !(await hasPermission("transfers:cancel"))
+    ) {
+      throw new AuthorizationError("Only the customer or dispatch can cancel");
+    }
 
-    await valuesUpdate(
-      `${MASTER_TITLE}!N${rowIdx}:N${rowIdx}`,
-      [["canceled"]],
-      accessToken
-    );
+    await transitionTransfer(row, "canceled", reason);
+    kickSheetsProjection(transferId);
   }
 
-  static async terminateTransfer(transferId: string): Promise<void> {
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
-
-    const { rowIdx, row } = await getMasterRowWithIndex(transferId, accessToken);
-    if (!rowIdx || !row) throw new Error("transferId not found");
-    if (row.state === "complete")
-      throw new Error("Cannot terminate a completed transfer");
+  @requireAuth()
+  @requirePermission("transfers:state")
+  static async terminateTransfer(
+    transferId: string,
+    reason?: string
+  ): Promise<void> {
+    const row = await loadTransferOrThrow(transferId);
+    await transitionTransfer(row, "terminated", reason);
+    kickSheetsProjection(transferId);
+  }
 
-    await valuesUpdate(
-      `${MASTER_TITLE}!N${rowIdx}:N${rowIdx}`,
-      [["terminated"]],
-      accessToken
-    );
+  @requireAuth()
+  @requirePermission("transfers:state")
+  static async markCompleted(
+    transferId: string,
+    reason?: string
+  ): Promise<void> {
+    const row = await loadTransferOrThrow(transferId);
+    await transitionTransfer(row, "complete", reason);
+    // Projection also adds the row to USR_<customerId>_<yyyymm>
+    kickSheetsProjection(transferId);
   }
 
-  static async markCompleted(transferId: string): Promise<void> {
-    const accessToken = await googleAccessToken();
-    await ensureMaster(accessToken);
+  // --------------------------------------------------
+  // Driver self-service (only the assigned driver)
+  // --------------------------------------------------
+
+  @requireAuth()
+  @requirePermission("transfers:drive")
+  static async acceptAssignment(transferId: string): Promise<void> {
+    await advanceRide(await loadAssignedTransfer(transferId), "accepted");
+    kickSheetsProjection(transferId);
+  }
 
-    const { rowIdx, row } = await getMasterRowWithIndex(transferId, accessToken);
-    if (!rowIdx || !row) throw new Error("transferId not found");
-    if (row.state !== "pending" && row.state !== "confirmed") {
-      throw new Error("Only pending or confirmed transfers can be completed");
+  /**
+   * Hand the ride back before setting off. The driver is unassigned and
+   * dispatch gets a push notification (with the reason).
+   */
+  @requireAuth()
+  @requirePermission("transfers:drive")
+  static async declineAssignment(
+    transferId: string,
+    reason?: string
+  ): Promise<void> {
+    const row = await loadAssignedTransfer(transferId);
+    const declinable =
+      DRIVER_ACTIVE_STATES.includes(row.state) &&
+      !!row.rideProgress &&
+      DECLINABLE_PROGRESS.includes(row.rideProgress);
+    if (!declinable) {
+      throw new InvalidTransferTransitionError(
+        row.rideProgress ?? row.state,
+        "declined"
+      );
     }
 
-    await valuesUpdate(
-      `${MASTER_TITLE}!N${rowIdx}:N${rowIdx}`,
-      [["complete"]],
-      accessToken
+    await D1Service.updateD1Transfer(
+      transferId,
+      { driverId: null, driverName: null, rideProgress: null },
+      "driverAssigned",
+      {
+        fromState: row.state,
+        toState: row.state,
+        fromProgress: row.rideProgress ?? null,
+        toProgress: null,
+        expectedDriverId: row.driverId,
+        actorId: currentUserId(),
+        reason: reason ? `${DECLINED_REASON}: ${reason}` : DECLINED_REASON
+      }
     );
+    kickSheetsProjection(transferId);
+    notifyTransfer("driverDeclined", row, reason);
+  }
 
-    const yyyymm = monthKeyFromISO(row.rideDateISO);
-    const monthlyTitle = await ensureMonthlyForUser(
-      row.customerId,
-      yyyymm,
-      accessToken
-    );
+  @requireAuth()
+  @requirePermission("transfers:drive")
+  static async startRide(transferId: string): Promise<void> {
+    await advanceRide(await loadAssignedTransfer(transferId), "enRoute");
+    kickSheetsProjection(transferId);
+  }
 
-    const existingMonthlyRow = await findMonthlyRowIndexByTransferId(
-      monthlyTitle,
-      transferId,
-      accessToken
-    );
+  @requireAuth()
+  @requirePermission("transfers:drive")
+  static async arriveAtPickup(transferId: string): Promise<void> {
+    await advanceRide(await loadAssignedTransfer(transferId), "atPickup");
+    kickSheetsProjection(transferId);
+  }
 
-    if (existingMonthlyRow) {
-      // Row already present → let Apps Script handle sorting/totals/borders/formatting
-      await callAppsScriptForSheet(monthlyTitle);
-      return;
-    }
+  /**
+   * Drop-off done: completes the transfer.
+   */
+  @requireAuth()
+  @requirePermission("transfers:drive")
+  static async finishRide(transferId: string): Promise<void> {
+    await advanceRide(await loadAssignedTransfer(transferId), "finished");
+    // Projection also adds the row to USR_<customerId>_<yyyymm>
+    kickSheetsProjection(transferId);
+  }
+
+  /**
+   * Read every transfer row of AllRequests (row index + parsed row).
+   * Used by the reconciliation job.
+   */
+  static async listMasterSheetTransfers(): Promise<
+    { rowIdx: number; row: TransferRow }[]
+  > {
+    const accessToken = await googleAccessToken();
+    await ensureMaster(accessToken);
 
-    // New monthly row
-    const { values: existingJ } = await valuesGet(
-      `${monthlyTitle}!J4:J`,
+    const { values } = await valuesGet(
+      `${MASTER_TITLE}!A2:${colLetter(MASTER_HEADERS.length)}`,
       accessToken
     );
-    const currentCount = existingJ?.length
-      ? existingJ.filter((r) => String(r?.[0] ?? "") !== "").length
-      : 0;
 
-    const nextIdx = currentCount + 1;
-    const insertAtRow = 3 + nextIdx;
+    const rows: { rowIdx: number; row: TransferRow }[] = [];
+    (values ?? []).forEach((v, i) => {
+      const row = rowToTransfer(v);
+      if (row?.transferId) rows.push({ rowIdx: i + 2, row }); // A2 => row 2
+    });
+    return rows;
+  }
 
-    const sheetId = await sheetIdByTitle(monthlyTitle, accessToken);
-    await sheetsBatchUpdate(
-      [
-        {
-          insertDimension: {
-            range: {
-              sheetId,
-              dimension: "ROWS",
-              startIndex: insertAtRow - 1,
-              endIndex: insertAtRow
-            },
-            inheritFromBefore: true
-          }
-        }
-      ],
-      accessToken
-    );
+  @requireAuth()
+  @requirePermission("sheets:sync")
+  static async resyncTransferToSheets(transferId: string): Promise<void> {
+    await TransferService.projectTransfer(transferId);
+  }
 
-    const argSep = await getFormulaArgSep(accessToken);
-    const vals = monthlyRowFormulas_SQL(transferId, argSep, MASTER_TITLE);
-    vals[0] = nextIdx;
+  /**
+   * Re-project a transfer from D1 into the sheets, bypassing the outbox.
+   */
+  static async projectTransfer(transferId: string): Promise<void> {
+    await projectTransferToSheets(await loadTransferOrThrow(transferId));
+  }
 
-    await valuesUpdate(
-      `${monthlyTitle}!A${insertAtRow}:J${insertAtRow}`,
-      [vals],
-      accessToken
-    );
+  @requireAuth()
+  @requirePermission("sheets:sync")
+  static async processSheetsOutbox(opts?: {
+    transferId?: string;
+    limit?: number;
+  }): Promise<{ projected: number; failed: number; deadLettered: number }> {
+    return TransferService.runSheetsOutbox(opts);
+  }
+
+  /**
+   * Sheets projector: applies due outbox entries to AllRequests and the
+   * monthly sheets. Entries of the same transfer are coalesced and the
+   * current D1 row is projected, so replaying an entry is harmless.
+   * Runs from the cron trigger and right after each transfer mutation.
+   */
+  static async runSheetsOutbox(opts?: {
+    transferId?: string;
+    limit?: number;
+  }): Promise<{ projected: number; failed: number; deadLettered: number }> {
+    const entries = await D1Service.claimOutboxEntries({
+      limit: opts?.limit ?? OUTBOX_BATCH_SIZE,
+      leaseMs: OUTBOX_LEASE_MS,
+      transferId: opts?.transferId
+    });
+
+    const byTransfer = new Map<string, typeof entries>();
+    for (const entry of entries) {
+      const list = byTransfer.get(entry.transferId) ?? [];
+      list.push(entry);
+      byTransfer.set(entry.transferId, list);
+    }
 
-    // Delegate sorting, totals, borders & formatting to Apps Script
-    await callAppsScriptForSheet(monthlyTitle);
+    let projected = 0;
+    let failed = 0;
+    let deadLettered = 0;
+
+    for (const [transferId, group] of byTransfer) {
+      try {
+        const rec = await D1Service.findD1Transfer(transferId);
+        // Nothing to project if the transfer is gone
+        if (rec) await projectTransferToSheets(d1RecordToTransferRow(rec));
+        await D1Service.completeOutboxEntries(group.map((e) => e.id));
+        projected += group.length;
+      } catch (err) {
+        console.error("Sheets projection failed for", transferId, err);
+        for (const entry of group) {
+          failed++;
+          if (await D1Service.failOutboxEntry(entry, err)) deadLettered++;
+        }
+      }
+    }
+
+    return { projected, failed, deadLettered };
   }
 
+  /**
+   * A transfer for its customer, its driver and transfers:read.
+   */
+  @requireAuth()
   static async getTransfer(
     transferId: string
   ): Promise<TransferRow | null> {
-    const accessToken = await googleAccessToken();
-    const { row } = await getMasterRowWithIndex(transferId, accessToken);
-    return row ?? null;
+    const row = await TransferService.findTransfer(transferId);
+    if (row) await assertCanReadTransfer(row);
+    return row;
   }
 
+  // Unchecked, for other services and cron
+  static async findTransfer(
+    transferId: string
+  ): Promise<TransferRow | null> {
+    const rec = await D1Service.findD1Transfer(transferId);
+    return rec ? d1RecordToTransferRow(rec) : null;
+  }
+
+  /**
+   * State transitions of a transfer, oldest first (creation included).
+   * For the transfer's customer, its driver and transfers:read.
+   */
+  @requireAuth()
+  static async transferHistory(transferId: string): Promise<
+    {
+      fromState: TransferState | null;
+      toState: TransferState;
+      fromProgress: RideProgress | null;
+      toProgress: RideProgress | null;
+      actorId: string | null;
+      reason: string | null;
+      createdAtISO: string;
+    }[]
+  > {
+    await assertCanReadTransfer(await loadTransferOrThrow(transferId));
+    const changes = await D1Service.listTransferStateChanges(transferId);
+    return changes.map((c) => ({
+      fromState: (c.fromState ?? null) as TransferState | null,
+      toState: c.toState as TransferState,
+      fromProgress: c.fromProgress ?? null,
+      toProgress: c.toProgress ?? null,
+      actorId: c.actorId ?? null,
+      reason: c.reason ?? null,
+      createdAtISO: c.createdAt.toISOString()
+    }));
+  }
+
+  @requireAuth()
+  @requirePermission("transfers:read")
   static async listTransfers(opts?: {
     customerId?: string;
     driverId?: string;
@@ -1568,7 +2267,17 @@ export class TransferService {
     fromDateISO?: string;
     toDateISO?: string;
   }): Promise<TransferRow[]> {
-    const d1Rows = await D1Service.getD1AllTransfers({
+    return TransferService.findTransfers(opts);
+  }
+
+  static async findTransfers(opts?: {
+    customerId?: string;
+    driverId?: string;
+    state?: TransferState;
+    fromDateISO?: string;
+    toDateISO?: string;
+  }): Promise<TransferRow[]> {
+    const d1Rows = await D1Service.findD1AllTransfers({
       state: opts?.state,
       customerId: opts?.customerId,
       driverId: opts?.driverId,
@@ -1586,9 +2295,11 @@ export class TransferService {
     const userId = auth.sub;
     if (!userId) throw new Error("Anonymous");
 
-    return TransferService.listTransfers({ customerId: userId });
+    return TransferService.findTransfers({ customerId: userId });
   }
 
+  @requireAuth()
+  @requirePermission("transfers:read", { selfArg: 0 })
   static async getDriverTransfers(
     driverUserId: string,
     opts?: {
@@ -1597,7 +2308,7 @@ export class TransferService {
       toDateISO?: string;
     }
   ): Promise<TransferRow[]> {
-    return TransferService.listTransfers({
+    return TransferService.findTransfers({
       driverId: driverUserId,
       state: opts?.state,
       fromDateISO: opts?.fromDateISO,
@@ -1605,6 +2316,8 @@ export class TransferService {
     });
   }
 
+  @requireAuth()
+  @requirePermission("transfers:read", { selfArg: 0 })
   static async getDriverRevenue(
     driverUserId: string,
     opts?: {
@@ -1622,11 +2335,14 @@ export class TransferService {
     const stateFilter = opts?.state ?? "complete";
 
     const compute = async () => {
-      const rows = await TransferService.listTransfers({
-        driverId: driverUserId,
-        fromDateISO: opts?.fromDateISO,
-        toDateISO: opts?.toDateISO
-      });
+      const [rows, billingRules] = await Promise.all([
+        TransferService.findTransfers({
+          driverId: driverUserId,
+          fromDateISO: opts?.fromDateISO,
+          toDateISO: opts?.toDateISO
+        }),
+        D1Service.listBillingRules()
+      ]);
 
       const eligible = rows.filter((r) => {
         const stateOk =
@@ -1634,7 +2350,15 @@ export class TransferService {
             ? r.state === "complete" || r.state === "confirmed"
             : r.state === stateFilter;
         if (!stateOk) return false;
-        if (!opts?.includeVouchers && r.payment === "Gutschein") return false;
+        if (
+          !opts?.includeVouchers &&
+          isVoucherPayment(
+            r.payment,
+            resolveBillingRules(billingRules, r.customerId, r.rideDateISO)
+          )
+        ) {
+          return false;
+        }
         return typeof r.amountEUR === "number";
       });
 
@@ -1665,6 +2389,8 @@ export class TransferService {
     };
   }
 
+  @requireAuth()
+  @requirePermission("sheets:sync")
   static async syncMonthlySheet(
     userId: string,
     yyyymm: string
@@ -1679,7 +2405,7 @@ export class TransferService {
       { wipe: true }
     );
 
-    const all = await TransferService.listTransfers({
+    const all = await TransferService.findTransfers({
       customerId: userId,
       state: "complete"
     });
@@ -1703,7 +2429,6 @@ export class TransferService {
       );
     }
 
-    // Delegate sorting, totals, borders & formatting to Apps Script
-    await callAppsScriptForSheet(monthlyTitle);
+    await refreshMonthlySheet(monthlyTitle, userId, yyyymm, accessToken);
   }
 }
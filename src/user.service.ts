@@ -3,8 +3,10 @@
 import { getContext, getEnv, requireAuth } from "@getcronit/pylon";
 import validator from "validator";
 import { InvalidInputError } from "./errors/general.errors";
+import { requirePermission } from "./utils/authorization";
 import {
   EmailOrUsernameAlreadyExistsError,
+  UserNotActiveError,
   UserNotFoundError,
 } from "./errors/user.errors";
 
@@ -47,8 +49,8 @@ export interface UserRoute {
 }
 
 /**
- * Web push subscription metadata stored per user.
- * Used by NotificationService but persisted via UserService.
+ * Web push subscription as sent by the browser. Stored in D1 by
+ * NotificationService; the ZITADEL metadata copy is legacy.
  */
 export interface UserPushSubscription {
   endpoint: string;
@@ -1093,6 +1095,27 @@ export class UserService {
     return promise;
   }
 
+  /**
+   * Load a user and make sure the account may act (not locked, deactivated
+   * or deleted). INITIAL users (no password set yet) are accepted.
+   */
+  static async getActiveZitadelUser(
+    userId: string,
+    organizationId?: string
+  ): Promise<ZitadelUser> {
+    const user = await UserService.getZitadelUserById(userId, organizationId);
+    const blocked = [
+      "USER_STATE_INACTIVE",
+      "USER_STATE_LOCKED",
+      "USER_STATE_DELETED",
+      "USER_STATE_SUSPEND",
+    ];
+    if (blocked.includes(user.state)) {
+      throw new UserNotActiveError(userId, user.state);
+    }
+    return user;
+  }
+
   static async listAllZitadelUsers(
     limit = 100,
     organizationId?: string
@@ -1227,6 +1250,8 @@ export class UserService {
    * Add a project role (v2 ProjectService.AddProjectRole).
    * Only key + optional displayName.
    */
+  @requireAuth()
+  @requirePermission("roles:manage")
   static async addProjectRole(
     projectId: string,
     roleKey: string,
@@ -1253,6 +1278,8 @@ export class UserService {
   /**
    * Remove a project role (v2 ProjectService.RemoveProjectRole).
    */
+  @requireAuth()
+  @requirePermission("roles:manage")
   static async removeProjectRole(
     projectId: string,
     roleKey: string,
@@ -1275,6 +1302,8 @@ export class UserService {
   // --------------------------------------------------
   // NEW: User lifecycle (delete, deactivate/reactivate, lock/unlock)
   // --------------------------------------------------
+  @requireAuth()
+  @requirePermission("users:manage")
   static async deleteUser(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(userId)}`;
     const res = await fetch(url, {
@@ -1284,6 +1313,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage")
   static async deactivateUser(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(
       userId
@@ -1296,6 +1327,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage")
   static async reactivateUser(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(
       userId
@@ -1308,6 +1341,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage")
   static async lockUser(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(
       userId
@@ -1320,6 +1355,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage")
   static async unlockUser(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(
       userId
@@ -1335,6 +1372,8 @@ export class UserService {
   // --------------------------------------------------
   // NEW: User partial update (username/profile/email/phone/password)
   // --------------------------------------------------
+  @requireAuth()
+  @requirePermission("users:manage", { selfArg: 0 })
   static async updateUser(
     userId: string,
     changes: UserUpdateInput,
@@ -1367,6 +1406,8 @@ export class UserService {
   // NEW: Credentials & verification flows
   // --------------------------------------------------
 
+  @requireAuth()
+  @requirePermission("users:manage", { selfArg: 0 })
   static async setPassword(
     userId: string,
     newPassword: string,
@@ -1389,6 +1430,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage", { selfArg: 0 })
   static async requestPasswordReset(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(
       userId
@@ -1401,6 +1444,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage", { selfArg: 0 })
   static async sendEmailVerification(userId: string, organizationId?: string) {
     const url = `${UserService.base()}/v2/users/${encodeURIComponent(
       userId
@@ -1413,6 +1458,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage", { selfArg: 0 })
   static async resendEmailVerification(
     userId: string,
     organizationId?: string
@@ -1444,6 +1491,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("users:manage", { selfArg: 0 })
   static async setPhone(
     userId: string,
     phone: string,
@@ -1464,6 +1513,8 @@ export class UserService {
   // NEW: Role / Authorization management (assign roles to user on a project)
   // --------------------------------------------------
 
+  @requireAuth()
+  @requirePermission("roles:manage")
   static async createAuthorization(
     input: AuthorizationCreateInput,
     organizationId?: string
@@ -1484,6 +1535,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("roles:manage")
   static async updateAuthorization(
     input: AuthorizationUpdateInput,
     organizationId?: string
@@ -1502,6 +1555,8 @@ export class UserService {
     return UserService.parseOrThrow(res);
   }
 
+  @requireAuth()
+  @requirePermission("roles:manage")
   static async deleteAuthorization(
     authorizationId: string,
     organizationId?: string
@@ -1604,7 +1659,8 @@ export class UserService {
   }
 
   // --------------------------------------------------
-  // NEW: Push subscriptions metadata (JSON list)
+  // Legacy: push subscriptions metadata (JSON list), now in D1.
+  // Only read by NotificationService.migratePushSubscriptionsToD1.
   // --------------------------------------------------
 
   static async getUserPushSubscriptions(
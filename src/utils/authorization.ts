@@ -0,0 +1,137 @@
+// utils/authorization.ts
+import { createDecorator, getContext } from "@getcronit/pylon";
+import { AuthorizationError } from "../errors/general.errors";
+import { UserService } from "../user.service";
+
+// ZITADEL project role keys this API knows about
+export type AppRole = "admin" | "dispatcher" | "driver" | "customer";
+
+export type Permission =
+  | "transfers:book" // book rides for oneself
+  | "transfers:create" // create rides for any customer
+  | "transfers:assign" // assign driver / price
+  | "transfers:state" // confirm, complete, terminate
+  | "transfers:cancel" // cancel any ride (customers may cancel their own)
+  | "transfers:read" // read all rides / revenue
+  | "transfers:drive" // respond to / progress own assigned rides
+  | "drivers:schedule" // shifts / absences of any driver
+  | "fleet:manage" // vehicle registry
+  | "pricing:manage" // tariffs and zones
+  | "billing:manage" // VAT, discount and voucher rules
+  | "sheets:sync" // Google Sheets projection + reconciliation
+  | "notifications:broadcast" // notify a whole role / list of users
+  | "users:manage" // lifecycle, profile and credentials of other users
+  | "roles:manage"; // project roles and user authorizations
+
+// Which operations each role may call (admin gets everything)
+export const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    "transfers:book",
+    "transfers:create",
+    "transfers:assign",
+    "transfers:state",
+    "transfers:cancel",
+    "transfers:read",
+    "transfers:drive",
+    "drivers:schedule",
+    "fleet:manage",
+    "pricing:manage",
+    "billing:manage",
+    "sheets:sync",
+    "notifications:broadcast",
+    "users:manage",
+    "roles:manage"
+  ],
+  dispatcher: [
+    "transfers:book",
+    "transfers:create",
+    "transfers:assign",
+    "transfers:state",
+    "transfers:cancel",
+    "transfers:read",
+    "drivers:schedule",
+    "fleet:manage",
+    "sheets:sync",
+    "notifications:broadcast"
+  ],
+  driver: ["transfers:drive"],
+  customer: ["transfers:book"]
+};
+
+const ROLE_KEYS_CACHE_KEY = "authzRoleKeys";
+
+function currentAuth(): { sub?: string } | undefined {
+  try {
+    return (getContext() as any).get("auth");
+  } catch {
+    return undefined;
+  }
+}
+
+export function currentUserId(): string | null {
+  return currentAuth()?.sub ?? null;
+}
+
+/**
+ * Project role keys of the signed-in user, resolved once per request.
+ */
+export async function currentUserRoles(): Promise<string[]> {
+  const userId = currentUserId();
+  if (!userId) return [];
+
+  // 👉 widen getContext() type so we can use custom keys
+  const ctx = getContext() as any;
+  let cached: Promise<string[]> | undefined = ctx.get(ROLE_KEYS_CACHE_KEY);
+  if (!cached) {
+    cached = UserService.getUserRoleKeys(userId);
+    ctx.set(ROLE_KEYS_CACHE_KEY, cached);
+  }
+  return cached;
+}
+
+export function permissionsForRoles(roleKeys: string[]): Set<Permission> {
+  const granted = new Set<Permission>();
+  for (const key of roleKeys) {
+    const perms = ROLE_PERMISSIONS[key.toLowerCase() as AppRole] ?? [];
+    for (const p of perms) granted.add(p);
+  }
+  return granted;
+}
+
+export async function hasPermission(permission: Permission): Promise<boolean> {
+  return permissionsForRoles(await currentUserRoles()).has(permission);
+}
+
+/**
+ * Throws AuthorizationError unless the signed-in user holds `permission`.
+ */
+export async function assertPermission(permission: Permission) {
+  if (!currentUserId()) {
+    throw new AuthorizationError("Authentication required");
+  }
+  if (!(await hasPermission(permission))) {
+    throw new AuthorizationError(`Missing permission '${permission}'`);
+  }
+}
+
+/**
+ * Method decorator: the caller needs `permission`. With `selfArg`, calls
+ * where that argument equals the caller's own user id are allowed too
+ * (e.g. a user updating their own profile). Stack under @requireAuth().
+ */
+export function requirePermission(
+  permission: Permission,
+  opts?: { selfArg?: number }
+) {
+  return createDecorator(async (...args: any[]) => {
+    const userId = currentUserId();
+    if (
+      userId &&
+      opts?.selfArg !== undefined &&
+      args[opts.selfArg] === userId
+    ) {
+      return;
+    }
+    await assertPermission(permission);
+  });
+}
@@ -0,0 +1,166 @@
+// utils/billingRules.ts
+import { roundCents } from "./pricing";
+
+export interface BillingRules {
+  transportVatPercent: number;
+  extrasVatPercent: number;
+  earlyPaymentDiscountPercent: number; // 0 = none
+  voucherPayment: string; // "Bezahlung" value marking a voucher ride
+}
+
+// Used where no BillingRule row applies (same as the initial D1 row)
+export const DEFAULT_BILLING_RULES: BillingRules = {
+  transportVatPercent: 10,
+  extrasVatPercent: 20,
+  earlyPaymentDiscountPercent: 4,
+  voucherPayment: "Gutschein"
+};
+
+const RULE_FIELDS = [
+  "transportVatPercent",
+  "extrasVatPercent",
+  "earlyPaymentDiscountPercent",
+  "voucherPayment"
+] as const;
+
+export type BillingRuleRow = {
+  id: number;
+  customerId: string | null;
+  effectiveFrom: string;
+} & { [K in (typeof RULE_FIELDS)[number]]: BillingRules[K] | null };
+
+/**
+ * Rules in force on `dateISO`: the defaults (rows without customer), then
+ * the customer's rows, each applied in effectiveFrom order and only for
+ * the fields they set.
+ */
+export function resolveBillingRules(
+  rows: BillingRuleRow[],
+  customerId: string | null,
+  dateISO: string
+): BillingRules {
+  const day = dateISO.slice(0, 10);
+  const inForce = (forCustomer: string | null) =>
+    rows
+      .filter((r) => r.customerId === forCustomer && r.effectiveFrom <= day)
+      .sort(
+        (a, b) =>
+          a.effectiveFrom.localeCompare(b.effectiveFrom) || a.id - b.id
+      );
+
+  const layers = customerId
+    ? [...inForce(null), ...inForce(customerId)]
+    : inForce(null);
+  return layers.reduce<BillingRules>(
+    (rules, row) => ({
+      ...rules,
+      ...Object.fromEntries(
+        RULE_FIELDS.filter((f) => row[f] !== null).map((f) => [f, row[f]])
+      )
+    }),
+    DEFAULT_BILLING_RULES
+  );
+}
+
+export function isVoucherPayment(
+  payment: string | null | undefined,
+  rules: BillingRules
+): boolean {
+  return (
+    !!payment &&
+    payment.trim().toLowerCase() === rules.voucherPayment.trim().toLowerCase()
+  );
+}
+
+// A monthly statement uses the rules in force on its last day
+export function statementDateISO(yyyymm: string): string {
+  const [y, m] = yyyymm.split("-").map(Number);
+  return new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+}
+
+// Month of a statement title ("ABRECHNUNG: OKTOBER 2026")
+export function germanMonthLabel(yyyymm: string) {
+  const [yStr, mStr] = yyyymm.split("-");
+  const y = Number(yStr);
+  const m = Number(mStr);
+  const names = [
+    "JÄNNER",
+    "FEBRUAR",
+    "MÄRZ",
+    "APRIL",
+    "MAI",
+    "JUNI",
+    "JULI",
+    "AUGUST",
+    "SEPTEMBER",
+    "OKTOBER",
+    "NOVEMBER",
+    "DEZEMBER"
+  ];
+  return `${names[m - 1]} ${y}`;
+}
+
+export type BillingLineKind = "transport" | "extra";
+
+export interface BillingTotals {
+  sumEUR: number;
+  voucherEUR: number;
+  netEUR: number; // after vouchers
+  vatEUR: number;
+  grossEUR: number;
+  discountEUR: number; // early-payment discount on the gross amount
+  discountedGrossEUR: number;
+  vatLines: { percent: number; netEUR: number; vatEUR: number }[];
+}
+
+/**
+ * Same figures as the monthly sheet totals: vouchers are deducted, VAT is
+ * charged per rate on what remains, and the early-payment discount is
+ * applied to the net before VAT.
+ */
+export function billingTotals(
+  lines: { amountEUR: number; kind?: BillingLineKind; voucher?: boolean }[],
+  rules: BillingRules
+): BillingTotals {
+  const sumEUR = roundCents(lines.reduce((s, l) => s + l.amountEUR, 0));
+  const voucherEUR = roundCents(
+    lines.filter((l) => l.voucher).reduce((s, l) => s + l.amountEUR, 0)
+  );
+
+  const byRate = new Map<number, number>();
+  for (const l of lines) {
+    if (l.voucher) continue;
+    const percent =
+      l.kind === "extra" ? rules.extrasVatPercent : rules.transportVatPercent;
+    byRate.set(percent, (byRate.get(percent) ?? 0) + l.amountEUR);
+  }
+  const vatLines = [...byRate.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([percent, net]) => ({
+      percent,
+      netEUR: roundCents(net),
+      vatEUR: roundCents((net * percent) / 100)
+    }));
+
+  const netEUR = roundCents(sumEUR - voucherEUR);
+  const vatEUR = roundCents(vatLines.reduce((s, v) => s + v.vatEUR, 0));
+  const grossEUR = roundCents(netEUR + vatEUR);
+  const factor = 1 - rules.earlyPaymentDiscountPercent / 100;
+  const discountedGrossEUR = roundCents(
+    vatLines.reduce(
+      (s, v) => s + v.netEUR * factor * (1 + v.percent / 100),
+      0
+    )
+  );
+
+  return {
+    sumEUR,
+    voucherEUR,
+    netEUR,
+    vatEUR,
+    grossEUR,
+    discountEUR: roundCents(grossEUR - discountedGrossEUR),
+    discountedGrossEUR,
+    vatLines
+  };
+}
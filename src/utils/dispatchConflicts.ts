@@ -0,0 +1,94 @@
+// utils/dispatchConflicts.ts
+import type { TransferRow } from "../transfer.service";
+import { rideStartsAt } from "./rideReminders";
+
+// Used when no estimate exists for a route
+export const DEFAULT_RIDE_MINUTES = 60;
+// Time a driver needs between drop-off and the next pickup
+export const TURNAROUND_MINUTES = 15;
+
+export interface RideWindow {
+  transferId: string;
+  startsAt: Date;
+  endsAt: Date; // drop-off + turnaround
+  durationMinutes: number;
+}
+
+export interface RideConflict {
+  transferId: string;
+  otherTransferId: string;
+  overlapMinutes: number;
+}
+
+// YYYY-MM-DD `days` later (or earlier)
+export function shiftDateISO(dateISO: string, days: number): string {
+  const d = new Date(`${dateISO.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// "  Flughafen  Wien " → "flughafen wien"
+export function normalizePlace(place: string): string {
+  return place.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function routeKey(pickup: string, dropoff: string): string {
+  return `${normalizePlace(pickup)}\u0000${normalizePlace(dropoff)}`;
+}
+
+/**
+ * Lookup for estimated minutes per route; a route without an estimate
+ * uses the reverse direction, then DEFAULT_RIDE_MINUTES.
+ */
+export function durationLookup(
+  estimates: { pickup: string; dropoff: string; minutes: number }[]
+): (pickup: string, dropoff: string) => number {
+  const byRoute = new Map(
+    estimates.map((e) => [routeKey(e.pickup, e.dropoff), e.minutes])
+  );
+  return (pickup, dropoff) =>
+    byRoute.get(routeKey(pickup, dropoff)) ??
+    byRoute.get(routeKey(dropoff, pickup)) ??
+    DEFAULT_RIDE_MINUTES;
+}
+
+export function rideWindow(
+  row: TransferRow,
+  durationMinutes: number
+): RideWindow | null {
+  const startsAt = rideStartsAt(row.rideDateISO, row.rideTime);
+  if (!startsAt) return null;
+  return {
+    transferId: row.transferId,
+    startsAt,
+    endsAt: new Date(
+      startsAt.getTime() + (durationMinutes + TURNAROUND_MINUTES) * 60_000
+    ),
+    durationMinutes
+  };
+}
+
+/**
+ * Pairs of windows that overlap (each pair once, in start order).
+ */
+export function findConflicts(windows: RideWindow[]): RideConflict[] {
+  const sorted = [...windows].sort(
+    (a, b) => a.startsAt.getTime() - b.startsAt.getTime()
+  );
+  const conflicts: RideConflict[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const a = sorted[i];
+      const b = sorted[j];
+      if (b.startsAt >= a.endsAt) break;
+      const overlapEnd = Math.min(a.endsAt.getTime(), b.endsAt.getTime());
+      conflicts.push({
+        transferId: a.transferId,
+        otherTransferId: b.transferId,
+        overlapMinutes: Math.round((overlapEnd - b.startsAt.getTime()) / 60_000)
+      });
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,138 @@
+// utils/documentStore.ts
+
+export interface StoredDocument {
+  bytes: Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Where generated documents (statement and invoice PDFs) are kept.
+ */
+export interface DocumentStore {
+  put(key: string, doc: StoredDocument): Promise<void>;
+  get(key: string): Promise<StoredDocument | null>;
+}
+
+/**
+ * R2 bucket binding (DOCUMENTS); the filename is kept as custom metadata.
+ */
+export class R2DocumentStore implements DocumentStore {
+  constructor(private readonly bucket: R2Bucket) {}
+
+  async put(key: string, doc: StoredDocument): Promise<void> {
+    await this.bucket.put(key, doc.bytes, {
+      httpMetadata: { contentType: doc.contentType },
+      customMetadata: { filename: doc.filename }
+    });
+  }
+
+  async get(key: string): Promise<StoredDocument | null> {
+    const obj = await this.bucket.get(key);
+    if (!obj) return null;
+    return {
+      bytes: new Uint8Array(await obj.arrayBuffer()),
+      contentType: obj.httpMetadata?.contentType ?? "application/pdf",
+      filename: obj.customMetadata?.filename ?? key.split("/").pop()!
+    };
+  }
+}
+
+/**
+ * Keeps documents in memory instead of R2, for local development
+ * (DOCUMENT_STORE = "memory"). Lost when the isolate restarts.
+ */
+export class MemoryDocumentStore implements DocumentStore {
+  static documents = new Map<string, StoredDocument>();
+
+  async put(key: string, doc: StoredDocument): Promise<void> {
+    MemoryDocumentStore.documents.set(key, doc);
+  }
+
+  async get(key: string): Promise<StoredDocument | null> {
+    return MemoryDocumentStore.documents.get(key) ?? null;
+  }
+}
+
+/**
+ * Store configured in env, or null if documents are not kept:
+ * - DOCUMENT_STORE: "r2" (default when DOCUMENTS is bound) | "memory"
+ * - DOCUMENTS: R2 bucket binding for "r2"
+ */
+export function documentStoreFromEnv(env: any): DocumentStore | null {
+  const kind = env?.DOCUMENT_STORE ?? (env?.DOCUMENTS ? "r2" : null);
+  if (kind === "memory") return new MemoryDocumentStore();
+  if (kind === "r2") {
+    if (!env?.DOCUMENTS) {
+      console.warn("DOCUMENT_STORE is r2 but no DOCUMENTS bucket is bound");
+      return null;
+    }
+    return new R2DocumentStore(env.DOCUMENTS);
+  }
+  if (kind) console.warn(`Unknown DOCUMENT_STORE '${kind}'`);
+  return null;
+}
+
+// ---------- Signed download links ----------
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    enc.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(message));
+  return [...new Uint8Array(sig)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Download link for `key` that works without login until `expiresAt`
+ * (served by the /documents route). Relative unless `origin` is given.
+ */
+export async function signedDocumentUrl(
+  key: string,
+  expiresAt: Date,
+  secret: string,
+  origin?: string
+): Promise<string> {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const signature = await hmacHex(secret, `${key}\n${expires}`);
+  const base = origin ? origin.replace(/\/+$/, "") : "";
+  return (
+    `${base}/documents/${encodeURIComponent(key)}` +
+    `?expires=${expires}&signature=${signature}`
+  );
+}
+
+export async function verifyDocumentSignature(
+  key: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  now = new Date()
+): Promise<boolean> {
+  const exp = Number(expires);
+  if (!signature || !Number.isInteger(exp)) return false;
+  if (exp * 1000 < now.getTime()) return false;
+
+  const expected = await hmacHex(secret, `${key}\n${exp}`);
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
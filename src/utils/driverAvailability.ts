@@ -0,0 +1,104 @@
+// utils/driverAvailability.ts
+
+export type AbsenceKind = "vacation" | "sickLeave" | "other";
+
+export interface ShiftRule {
+  weekday: number; // 1 = Monday … 7 = Sunday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, before startTime = overnight
+  validFrom: string | null;
+  validUntil: string | null;
+}
+
+export interface AbsenceEntry {
+  kind: AbsenceKind;
+  startDateISO: string;
+  endDateISO: string;
+}
+
+// Why a driver can't take a ride (null = available)
+export type Unavailability =
+  | { reason: "absent"; kind: AbsenceKind }
+  | { reason: "offShift" };
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// ISO weekday of a YYYY-MM-DD date
+export function isoWeekday(dateISO: string): number {
+  const day = new Date(`${dateISO.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+function previousDateISO(dateISO: string): string {
+  const d = new Date(`${dateISO.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function validOn(shift: ShiftRule, dateISO: string): boolean {
+  return (
+    (!shift.validFrom || shift.validFrom <= dateISO) &&
+    (!shift.validUntil || dateISO <= shift.validUntil)
+  );
+}
+
+/**
+ * Does a shift cover local `dateISO` `time`? Overnight shifts count for the
+ * day they start on; the end time itself is outside the shift.
+ */
+export function isWithinShift(
+  shifts: ShiftRule[],
+  dateISO: string,
+  time: string
+): boolean {
+  const day = dateISO.slice(0, 10);
+  const yesterday = previousDateISO(day);
+  const now = toMinutes(time);
+
+  return shifts.some((s) => {
+    const start = toMinutes(s.startTime);
+    const end = toMinutes(s.endTime);
+    const overnight = end <= start;
+
+    if (s.weekday === isoWeekday(day) && validOn(s, day)) {
+      if (overnight ? now >= start : now >= start && now < end) return true;
+    }
+    // Tail of an overnight shift that started yesterday
+    return (
+      overnight &&
+      s.weekday === isoWeekday(yesterday) &&
+      validOn(s, yesterday) &&
+      now < end
+    );
+  });
+}
+
+export function absenceOn(
+  absences: AbsenceEntry[],
+  dateISO: string
+): AbsenceEntry | null {
+  const day = dateISO.slice(0, 10);
+  return (
+    absences.find((a) => a.startDateISO <= day && day <= a.endDateISO) ?? null
+  );
+}
+
+/**
+ * Absences always count. Shifts only once a driver has entered any: drivers
+ * without a schedule are treated as always available.
+ */
+export function unavailability(
+  schedule: { shifts: ShiftRule[]; absences: AbsenceEntry[] },
+  dateISO: string,
+  time: string
+): Unavailability | null {
+  const absence = absenceOn(schedule.absences, dateISO);
+  if (absence) return { reason: "absent", kind: absence.kind };
+  if (schedule.shifts.length && !isWithinShift(schedule.shifts, dateISO, time)) {
+    return { reason: "offShift" };
+  }
+  return null;
+}
@@ -0,0 +1,142 @@
+// utils/driverSuggestions.ts
+import type { Unavailability } from "./driverAvailability";
+
+export type SuggestionFactor =
+  | "conflicts"
+  | "availability"
+  | "vehicle"
+  | "dayLoad"
+  | "monthLoad"
+  | "routeFamiliarity";
+
+export interface SuggestionReason {
+  factor: SuggestionFactor;
+  points: number;
+  detail: string;
+}
+
+// What is known about one driver relative to the ride
+export interface DriverFacts {
+  conflictingTransferIds: string[];
+  unavailable: Unavailability | null;
+  hasShifts: boolean;
+  // null = ride has no vehicle class or the driver's classes are unknown
+  vehicleMatches: boolean | null;
+  ridesThatDay: number;
+  ridesThisMonth: number;
+  maxRidesThisMonth: number; // busiest driver this month
+  daysSinceRoute: number | null; // null = never drove it (in the window)
+}
+
+// Points per factor; tune here
+export const SUGGESTION_WEIGHTS = {
+  conflict: -100,
+  absent: -100,
+  offShift: -40,
+  onShift: 20,
+  vehicleMatch: 15,
+  vehicleMismatch: -10,
+  perRideThatDay: -8,
+  monthLoad: -15, // for the busiest driver, scaled down for the others
+  routeRecent: 10, // drove the route within ROUTE_RECENT_DAYS
+  routeKnown: 5 // drove it within the lookback window
+};
+
+export const ROUTE_RECENT_DAYS = 30;
+export const ROUTE_LOOKBACK_DAYS = 90;
+
+// History reason written by TransferService.declineAssignment
+export const DECLINED_REASON = "declined";
+
+/**
+ * Drivers who declined each transfer, from its state history. They are
+ * not suggested for that transfer again.
+ */
+export function declinedDrivers(
+  changes: {
+    transferId: string;
+    actorId: string | null;
+    reason: string | null;
+  }[]
+): Map<string, Set<string>> {
+  const byTransfer = new Map<string, Set<string>>();
+  for (const c of changes) {
+    const declined =
+      c.reason === DECLINED_REASON ||
+      !!c.reason?.startsWith(`${DECLINED_REASON}:`);
+    if (!declined || !c.actorId) continue;
+    const drivers = byTransfer.get(c.transferId) ?? new Set<string>();
+    drivers.add(c.actorId);
+    byTransfer.set(c.transferId, drivers);
+  }
+  return byTransfer;
+}
+
+/**
+ * Score with reasons. Drivers assignDriver would refuse (conflicting ride,
+ * absent, outside shift) are never eligible, whatever their score.
+ */
+export function scoreDriver(facts: DriverFacts): {
+  score: number;
+  eligible: boolean;
+  reasons: SuggestionReason[];
+} {
+  const w = SUGGESTION_WEIGHTS;
+  const reasons: SuggestionReason[] = [];
+  const add = (factor: SuggestionFactor, points: number, detail: string) =>
+    reasons.push({ factor, points, detail });
+
+  if (facts.conflictingTransferIds.length) {
+    add(
+      "conflicts",
+      w.conflict * facts.conflictingTransferIds.length,
+      `overlaps with ${facts.conflictingTransferIds.join(", ")}`
+    );
+  }
+
+  if (facts.unavailable?.reason === "absent") {
+    add("availability", w.absent, `absent (${facts.unavailable.kind})`);
+  } else if (facts.unavailable?.reason === "offShift") {
+    add("availability", w.offShift, "outside shift");
+  } else if (facts.hasShifts) {
+    add("availability", w.onShift, "on shift");
+  }
+
+  if (facts.vehicleMatches === true) {
+    add("vehicle", w.vehicleMatch, "has driven this vehicle class before");
+  } else if (facts.vehicleMatches === false) {
+    add("vehicle", w.vehicleMismatch, "has not driven this vehicle class");
+  }
+
+  if (facts.ridesThatDay) {
+    add(
+      "dayLoad",
+      w.perRideThatDay * facts.ridesThatDay,
+      `${facts.ridesThatDay} other ride(s) that day`
+    );
+  }
+
+  if (facts.ridesThisMonth && facts.maxRidesThisMonth) {
+    add(
+      "monthLoad",
+      Math.round(
+        (w.monthLoad * facts.ridesThisMonth) / facts.maxRidesThisMonth
+      ),
+      `${facts.ridesThisMonth} ride(s) this month`
+    );
+  }
+
+  if (facts.daysSinceRoute !== null) {
+    add(
+      "routeFamiliarity",
+      facts.daysSinceRoute <= ROUTE_RECENT_DAYS ? w.routeRecent : w.routeKnown,
+      `drove this route ${facts.daysSinceRoute} day(s) ago`
+    );
+  }
+
+  return {
+    score: reasons.reduce((sum, r) => sum + r.points, 0),
+    eligible: !facts.conflictingTransferIds.length && !facts.unavailable,
+    reasons
+  };
+}
@@ -0,0 +1,126 @@
+// utils/emailTransport.ts
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string; // base64
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Adapter to whatever actually sends the mail. Throws if the message was
+ * not accepted.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * JSON-over-HTTP provider (Resend / Postmark style):
+ * POST EMAIL_API_URL with `Authorization: Bearer EMAIL_API_KEY` and
+ * { from, to: [..], subject, text, html, attachments }.
+ */
+export class HttpEmailTransport implements EmailTransport {
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments
+      })
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`Email provider responded ${res.status}: ${text}`);
+    }
+  }
+}
+
+/**
+ * Keeps messages in memory instead of sending them, for local development
+ * (EMAIL_TRANSPORT = "fake"). Read them back via FakeEmailTransport.sent.
+ */
+export class FakeEmailTransport implements EmailTransport {
+  static sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    FakeEmailTransport.sent.push(message);
+  }
+}
+
+/**
+ * Transport configured in env, or null if email is not set up:
+ * - EMAIL_TRANSPORT: "http" (default when EMAIL_API_URL is set) | "fake"
+ * - EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM for "http"
+ */
+export function emailTransportFromEnv(env: any): EmailTransport | null {
+  const kind = env?.EMAIL_TRANSPORT ?? (env?.EMAIL_API_URL ? "http" : null);
+
+  if (kind === "fake") return new FakeEmailTransport();
+  if (kind === "http") {
+    if (!env?.EMAIL_API_URL || !env?.EMAIL_API_KEY || !env?.EMAIL_FROM) {
+      console.error(
+        "EMAIL_TRANSPORT is http but EMAIL_API_URL / EMAIL_API_KEY / EMAIL_FROM are missing"
+      );
+      return null;
+    }
+    return new HttpEmailTransport(
+      env.EMAIL_API_URL,
+      env.EMAIL_API_KEY,
+      env.EMAIL_FROM
+    );
+  }
+  return null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Plain email from a push payload: title as subject, body plus the deep
+ * link (only if absolute, relative links mean nothing in a mail client).
+ */
+export function emailFromPayload(
+  to: string,
+  payload: { title: string; body?: string; data?: any }
+): EmailMessage {
+  const url: string | undefined = payload.data?.url;
+  const link = url && /^https?:\/\//.test(url) ? url : undefined;
+  const body = payload.body ?? "";
+
+  return {
+    to,
+    subject: payload.title,
+    text: link ? `${body}\n\n${link}` : body,
+    html:
+      `<p>${escapeHtml(body)}</p>` +
+      (link ? `<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>` : "")
+  };
+}
@@ -0,0 +1,164 @@
+// utils/notificationPreferences.ts
+
+/**
+ * Coarse groups users can mute. Transfer events map onto these in
+ * utils/transferNotifications.ts.
+ */
+export type NotificationCategory =
+  | "booking" // created, price, confirmation
+  | "assignment" // driver assigned / declined
+  | "rideStatus" // canceled, terminated, completed
+  | "reminder"
+  | "announcement"
+  | "statement" // monthly statements, invoices
+  | "system"; // test pushes, account notices
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  "booking",
+  "assignment",
+  "rideStatus",
+  "reminder",
+  "announcement",
+  "statement",
+  "system"
+];
+
+/**
+ * Delivery channels, tried in the user's order until one reaches them.
+ */
+export type NotificationChannelName = "push" | "email";
+
+export const NOTIFICATION_CHANNELS: NotificationChannelName[] = [
+  "push",
+  "email"
+];
+
+// Web push first, email for users without a working subscription
+export const DEFAULT_CHANNELS: NotificationChannelName[] = ["push", "email"];
+
+export const DEFAULT_TIMEZONE = "Europe/Vienna";
+export const DEFAULT_LANGUAGE = "de";
+
+export interface QuietHours {
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface NotificationPreferences {
+  mutedCategories: NotificationCategory[];
+  mutedDeviceIds: string[];
+  channels: NotificationChannelName[];
+  quietHours: QuietHours | null;
+  timezone: string;
+  language: string;
+}
+
+const HHMM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTime(value: string): boolean {
+  return HHMM.test(value);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Minutes since local midnight in `timezone`
+function localMinutes(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(at);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return get("hour") * 60 + get("minute");
+}
+
+/**
+ * If `at` falls into the quiet hours, the instant they end; otherwise null.
+ * Windows may span midnight (22:00–07:00). DST shifts inside the window
+ * are ignored, the push then arrives an hour early or late.
+ */
+export function quietHoursEndAt(
+  quietHours: QuietHours | null,
+  timezone: string,
+  at: Date = new Date()
+): Date | null {
+  if (!quietHours) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return null;
+
+  const now = localMinutes(at, timezone);
+  const inside =
+    start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inside) return null;
+
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+  const endAt = new Date(at.getTime() + minutesLeft * 60_000);
+  endAt.setUTCSeconds(0, 0);
+  return endAt;
+}
+
+function parseJsonList(value: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(value ?? "[]");
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Known channels in stored order; nothing usable = DEFAULT_CHANNELS
+function resolveChannels(stored: string[]): NotificationChannelName[] {
+  const channels = [...new Set(stored)].filter((c) =>
+    NOTIFICATION_CHANNELS.includes(c as NotificationChannelName)
+  ) as NotificationChannelName[];
+  return channels.length ? channels : DEFAULT_CHANNELS;
+}
+
+/**
+ * Row of the NotificationPreference table (or null) → effective settings.
+ * `profileLanguage` is ZITADEL's profile.preferredLanguage.
+ */
+export function resolvePreferences(
+  rec: {
+    mutedCategories: string;
+    mutedDeviceIds: string;
+    channels: string;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    timezone: string;
+    language: string | null;
+  } | null,
+  profileLanguage?: string
+): NotificationPreferences {
+  const quietHours =
+    rec?.quietHoursStart && rec?.quietHoursEnd
+      ? { start: rec.quietHoursStart, end: rec.quietHoursEnd }
+      : null;
+
+  return {
+    mutedCategories: parseJsonList(rec?.mutedCategories).filter((c) =>
+      NOTIFICATION_CATEGORIES.includes(c as NotificationCategory)
+    ) as NotificationCategory[],
+    mutedDeviceIds: parseJsonList(rec?.mutedDeviceIds),
+    channels: resolveChannels(parseJsonList(rec?.channels)),
+    quietHours,
+    timezone: rec?.timezone || DEFAULT_TIMEZONE,
+    language: rec?.language || profileLanguage || DEFAULT_LANGUAGE
+  };
+}
@@ -0,0 +1,347 @@
+// utils/notificationTemplates.ts
+import type { TransferRow } from "../transfer.service";
+
+export type NotificationLocale = "de-AT" | "en";
+
+export const DEFAULT_LOCALE: NotificationLocale = "de-AT";
+export const SUPPORTED_LOCALES: NotificationLocale[] = ["de-AT", "en"];
+
+export interface NotificationTemplate {
+  title: string;
+  body: string;
+}
+
+/**
+ * Template texts per key and locale. `{name}` placeholders are filled by
+ * renderTemplate; see transferTemplateVars for the transfer variables.
+ * Keys: "transfer.<TransferEvent>.<TransferAudience>" and "test".
+ */
+export const NOTIFICATION_TEMPLATES: Record<
+  string,
+  Partial<Record<NotificationLocale, NotificationTemplate>>
+> = {
+  // ---------- created ----------
+  "transfer.created.customer": {
+    "de-AT": {
+      title: "Buchung eingegangen",
+      body: "Wir haben Ihre Fahrt am {rideDate} um {rideTime} von {pickup} nach {dropoff} erhalten."
+    },
+    en: {
+      title: "Booking received",
+      body: "We received your ride on {rideDate} at {rideTime} from {pickup} to {dropoff}."
+    }
+  },
+  "transfer.created.dispatch": {
+    "de-AT": {
+      title: "Neue Buchung",
+      body: "{customerName}: {rideDate} {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "New booking",
+      body: "{customerName}: {rideDate} {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+
+  // ---------- priceAssigned ----------
+  "transfer.priceAssigned.customer": {
+    "de-AT": {
+      title: "Preis festgelegt",
+      body: "Ihre Fahrt am {rideDate} um {rideTime} kostet {amount}."
+    },
+    en: {
+      title: "Price set",
+      body: "Your ride on {rideDate} at {rideTime} costs {amount}."
+    }
+  },
+
+  // ---------- confirmed ----------
+  "transfer.confirmed.customer": {
+    "de-AT": {
+      title: "Ihre Fahrt wurde bestätigt",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Your ride is confirmed",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+  "transfer.confirmed.driver": {
+    "de-AT": {
+      title: "Fahrt bestätigt",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Ride confirmed",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+
+  // ---------- driverAssigned ----------
+  "transfer.driverAssigned.customer": {
+    "de-AT": {
+      title: "Fahrer zugewiesen",
+      body: "{driverName} übernimmt Ihre Fahrt am {rideDate} um {rideTime}."
+    },
+    en: {
+      title: "Driver assigned",
+      body: "{driverName} will drive you on {rideDate} at {rideTime}."
+    }
+  },
+  "transfer.driverAssigned.driver": {
+    "de-AT": {
+      title: "Neue Fahrt zugewiesen",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "New ride assigned",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+
+  // ---------- driverDeclined ----------
+  "transfer.driverDeclined.dispatch": {
+    "de-AT": {
+      title: "Fahrt abgelehnt",
+      body: "{driverName} hat die Fahrt am {rideDate} um {rideTime} ({pickup} → {dropoff}) abgelehnt."
+    },
+    en: {
+      title: "Ride declined",
+      body: "{driverName} declined the ride on {rideDate} at {rideTime} ({pickup} → {dropoff})."
+    }
+  },
+
+  // ---------- canceled ----------
+  "transfer.canceled.customer": {
+    "de-AT": {
+      title: "Ihre Fahrt wurde storniert",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Your ride was canceled",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+  "transfer.canceled.driver": {
+    "de-AT": {
+      title: "Fahrt storniert",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Ride canceled",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+  "transfer.canceled.dispatch": {
+    "de-AT": {
+      title: "Fahrt storniert",
+      body: "{customerName}: {rideDate} {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Ride canceled",
+      body: "{customerName}: {rideDate} {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+
+  // ---------- terminated ----------
+  "transfer.terminated.customer": {
+    "de-AT": {
+      title: "Ihre Fahrt wurde abgesagt",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Your ride was called off",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+  "transfer.terminated.driver": {
+    "de-AT": {
+      title: "Fahrt abgesagt",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Ride called off",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+
+  // ---------- completed ----------
+  "transfer.completed.customer": {
+    "de-AT": {
+      title: "Danke für Ihre Fahrt",
+      body: "Wir hoffen, Sie sind gut in {dropoff} angekommen."
+    },
+    en: {
+      title: "Thank you for riding with us",
+      body: "We hope you arrived well at {dropoff}."
+    }
+  },
+  "transfer.completed.dispatch": {
+    "de-AT": {
+      title: "Fahrt abgeschlossen",
+      body: "{driverName}: {rideDate} {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Ride completed",
+      body: "{driverName}: {rideDate} {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+
+  // ---------- reminders ----------
+  "transfer.reminder.customer": {
+    "de-AT": {
+      title: "Erinnerung an Ihre Fahrt",
+      body: "Ihre Fahrt am {rideDate} um {rideTime}: {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Reminder: your ride",
+      body: "Your ride on {rideDate} at {rideTime}: {pickup} → {dropoff}"
+    }
+  },
+  "transfer.reminder.driver": {
+    "de-AT": {
+      title: "Anstehende Fahrt",
+      body: "{rideDate} um {rideTime}, {pickup} → {dropoff}"
+    },
+    en: {
+      title: "Upcoming ride",
+      body: "{rideDate} at {rideTime}, {pickup} → {dropoff}"
+    }
+  },
+  "transfer.unassigned.dispatch": {
+    "de-AT": {
+      title: "Fahrt ohne Fahrer",
+      body: "{customerName}: {rideDate} {rideTime}, {pickup} → {dropoff} hat noch keinen Fahrer."
+    },
+    en: {
+      title: "Ride without driver",
+      body: "{customerName}: {rideDate} {rideTime}, {pickup} → {dropoff} has no driver yet."
+    }
+  },
+
+  // ---------- misc ----------
+  test: {
+    "de-AT": {
+      title: "Testbenachrichtigung",
+      body: "Wenn Sie das sehen, funktionieren Push-Benachrichtigungen für Ihr Konto."
+    },
+    en: {
+      title: "Test notification",
+      body: "If you see this, push notifications are working for your account."
+    }
+  }
+};
+
+/**
+ * Candidate locales for a preferredLanguage, best first:
+ * exact tag → same language in another region → DEFAULT_LOCALE → en.
+ * "de-DE" → de-AT, "en-US" → en, "fr" → de-AT.
+ */
+export function localeFallbackChain(
+  preferred?: string | null
+): NotificationLocale[] {
+  const chain: NotificationLocale[] = [];
+  const add = (l: NotificationLocale) => {
+    if (!chain.includes(l)) chain.push(l);
+  };
+
+  const tag = (preferred ?? "").trim().replace("_", "-").toLowerCase();
+  const base = tag.split("-")[0];
+
+  for (const l of SUPPORTED_LOCALES) if (l.toLowerCase() === tag) add(l);
+  for (const l of SUPPORTED_LOCALES) {
+    if (base && l.toLowerCase().split("-")[0] === base) add(l);
+  }
+  add(DEFAULT_LOCALE);
+  add("en");
+  return chain;
+}
+
+export function resolveLocale(preferred?: string | null): NotificationLocale {
+  return localeFallbackChain(preferred)[0];
+}
+
+/**
+ * Replace `{name}` with vars[name]; unknown placeholders become "".
+ */
+export function interpolate(
+  text: string,
+  vars: Record<string, string | undefined>
+): string {
+  return text
+    .replace(/\{(\w+)\}/g, (_, name: string) => vars[name] ?? "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Render a template in the first locale of the fallback chain that has
+ * it. Returns null for unknown keys.
+ */
+export function renderTemplate(
+  key: string,
+  preferred: string | null | undefined,
+  vars: Record<string, string | undefined>
+): NotificationTemplate | null {
+  const byLocale = NOTIFICATION_TEMPLATES[key];
+  if (!byLocale) return null;
+
+  for (const locale of localeFallbackChain(preferred)) {
+    const template = byLocale[locale];
+    if (template) {
+      return {
+        title: interpolate(template.title, vars),
+        body: interpolate(template.body, vars)
+      };
+    }
+  }
+  return null;
+}
+
+// ---------- Variables ----------
+
+/**
+ * "2026-12-24" → "24.12.2026" (de-AT) / "24 Dec 2026" (en). Formatted in
+ * UTC because rideDateISO is a plain calendar date.
+ */
+export function formatRideDate(
+  rideDateISO: string,
+  locale: NotificationLocale
+): string {
+  const date = new Date(`${rideDateISO.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return rideDateISO;
+
+  return new Intl.DateTimeFormat(locale === "en" ? "en-GB" : "de-AT", {
+    timeZone: "UTC",
+    day: "2-digit",
+    month: locale === "en" ? "short" : "2-digit",
+    year: "numeric"
+  }).format(date);
+}
+
+export function formatAmount(
+  amountEUR: number | undefined,
+  locale: NotificationLocale
+): string {
+  if (typeof amountEUR !== "number") return "";
+  return new Intl.NumberFormat(locale === "en" ? "en-GB" : "de-AT", {
+    style: "currency",
+    currency: "EUR"
+  }).format(amountEUR);
+}
+
+export function transferTemplateVars(
+  row: TransferRow,
+  locale: NotificationLocale
+): Record<string, string | undefined> {
+  const unknownDriver = locale === "en" ? "A driver" : "Ein Fahrer";
+  return {
+    rideDate: formatRideDate(row.rideDateISO, locale),
+    rideTime: row.rideTime,
+    pickup: row.pickup,
+    dropoff: row.dropoff,
+    driverName: row.driverName || row.driverId || unknownDriver,
+    customerName: row.customerName || row.customerId,
+    amount: formatAmount(row.amountEUR, locale),
+    transferId: row.transferId
+  };
+}
@@ -0,0 +1,273 @@
+// utils/pdfDocument.ts
+//
+// Minimal PDF writer for generated documents (statements, invoices): text in
+// the standard Helvetica fonts, lines and filled rectangles, no images and
+// no compression. Runs in the Worker without any dependency.
+
+export type PdfColor = [number, number, number]; // 0..1 RGB
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+  width?: number; // box for center/right alignment, starting at x
+  color?: PdfColor;
+}
+
+// A4 in points
+export const A4_PORTRAIT = { width: 595, height: 842 };
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+// Helvetica advance widths (1/1000 em) for the codes 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584
+];
+
+// WinAnsiEncoding codes outside Latin-1 (plus replacements for characters
+// the standard fonts don't have)
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "\u202f": 0x20, // narrow no-break space (Intl number formats)
+  "→": 0x2d // as "-"
+};
+
+const WIN_ANSI_WIDTHS: Record<number, number> = {
+  0x80: 556,
+  0x82: 222,
+  0x84: 333,
+  0x85: 1000,
+  0x91: 222,
+  0x92: 222,
+  0x93: 333,
+  0x94: 333,
+  0x95: 350,
+  0x96: 556,
+  0x97: 1000,
+  0xa0: 278,
+  0xdf: 611 // ß
+};
+
+function winAnsiCode(ch: string): number {
+  const mapped = WIN_ANSI[ch];
+  if (mapped !== undefined) return mapped;
+  const code = ch.codePointAt(0)!;
+  if (code >= 0x20 && code <= 0x7e) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return 0x3f; // ?
+}
+
+function charWidth(code: number): number {
+  if (code >= 32 && code <= 126) return HELVETICA_WIDTHS[code - 32];
+  const known = WIN_ANSI_WIDTHS[code];
+  if (known !== undefined) return known;
+  // Accented Latin-1 letters are as wide as their base letter
+  const base = String.fromCharCode(code).normalize("NFD").charCodeAt(0);
+  return base >= 32 && base <= 126 ? HELVETICA_WIDTHS[base - 32] : 556;
+}
+
+function isLetter(code: number): boolean {
+  return (
+    (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code >= 0xc0
+  );
+}
+
+/**
+ * Width of `value` in points. Bold letters are approximated as 5% wider;
+ * digits and punctuation keep their width, so right-aligned amounts line
+ * up in both weights.
+ */
+export function pdfTextWidth(value: string, size: number, bold = false) {
+  let units = 0;
+  for (const ch of value) {
+    const code = winAnsiCode(ch);
+    const w = charWidth(code);
+    units += bold && isLetter(code) ? w * 1.05 : w;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * `value` shortened with "…" so it fits `maxWidth`.
+ */
+export function fitPdfText(
+  value: string,
+  maxWidth: number,
+  size: number,
+  bold = false
+): string {
+  if (pdfTextWidth(value, size, bold) <= maxWidth) return value;
+  const chars = [...value];
+  while (chars.length) {
+    chars.pop();
+    const candidate = `${chars.join("").trimEnd()}…`;
+    if (pdfTextWidth(candidate, size, bold) <= maxWidth) return candidate;
+  }
+  return "";
+}
+
+function pdfString(value: string): string {
+  let out = "";
+  for (const ch of value) {
+    const code = winAnsiCode(ch);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      out += `\\${String.fromCharCode(code)}`;
+    } else if (code > 0x7e) {
+      out += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return `(${out})`;
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+const color = (c: PdfColor) => c.map(num).join(" ");
+
+/**
+ * Pages are drawn top-down: `y` is measured from the top edge (for text it
+ * is the baseline). Drawing goes to the current page, see addPage/setPage.
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private current = -1;
+
+  constructor(
+    readonly width = A4_PORTRAIT.width,
+    readonly height = A4_PORTRAIT.height
+  ) {}
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Continue drawing on an earlier page (0-based), e.g. for "page x of y"
+   * footers once the page count is known.
+   */
+  setPage(index: number) {
+    if (index < 0 || index >= this.pages.length) {
+      throw new RangeError(`No page ${index}`);
+    }
+    this.current = index;
+  }
+
+  text(x: number, y: number, value: string, opts: PdfTextOptions = {}) {
+    const size = opts.size ?? 10;
+    const bold = opts.bold ?? false;
+    let left = x;
+    if (opts.align && opts.align !== "left" && opts.width !== undefined) {
+      const free = opts.width - pdfTextWidth(value, size, bold);
+      left = x + (opts.align === "right" ? free : free / 2);
+    }
+    this.draw(
+      `BT ${color(opts.color ?? [0, 0, 0])} rg /${bold ? "F2" : "F1"} ` +
+        `${num(size)} Tf ${num(left)} ${num(this.height - y)} Td ` +
+        `${pdfString(value)} Tj ET`
+    );
+  }
+
+  rect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    style: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number }
+  ) {
+    const box = `${num(x)} ${num(this.height - y - h)} ${num(w)} ${num(h)} re`;
+    if (style.fill) this.draw(`${color(style.fill)} rg ${box} f`);
+    if (style.stroke) {
+      this.draw(
+        `${num(style.lineWidth ?? 0.5)} w ${color(style.stroke)} RG ${box} S`
+      );
+    }
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    stroke: PdfColor = [0, 0, 0],
+    lineWidth = 0.5
+  ) {
+    this.draw(
+      `${num(lineWidth)} w ${color(stroke)} RG ` +
+        `${num(x1)} ${num(this.height - y1)} m ` +
+        `${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  toBytes(): Uint8Array {
+    if (!this.pages.length) this.addPage();
+
+    // 1 catalog, 2 page tree, 3/4 fonts, then page + content per page
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}]` +
+        ` /Count ${pageIds.length} >>`
+    );
+    for (const font of ["Helvetica", "Helvetica-Bold"]) {
+      objects.push(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${font}` +
+          " /Encoding /WinAnsiEncoding >>"
+      );
+    }
+    this.pages.forEach((ops, i) => {
+      const content = ops.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ` +
+          `${this.height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >>` +
+          ` /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      objects.push(
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Everything above is ASCII, so string offsets are byte offsets
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      out += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    }
+    out +=
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`;
+
+    return new TextEncoder().encode(out);
+  }
+
+  private draw(op: string) {
+    if (!this.pages.length) this.addPage();
+    this.pages[this.current].push(op);
+  }
+}
@@ -0,0 +1,152 @@
+// utils/pricing.ts
+import { isoWeekday } from "./driverAvailability";
+import { VehicleClass } from "./vehicleClasses";
+
+export type QuoteLineKind =
+  | "base"
+  | "vehicleClass"
+  | "night"
+  | "sunday"
+  | "waiting"
+  | "extraStops";
+
+export interface QuoteLine {
+  kind: QuoteLineKind;
+  label: string;
+  amountEUR: number;
+}
+
+// Surcharges on top of the base price; override with PRICING_RULES (JSON)
+export interface PricingRules {
+  vehicleClassPercent: Record<VehicleClass, number>;
+  nightPercent: number;
+  nightFrom: string; // HH:mm, pickup at or after
+  nightUntil: string; // HH:mm, pickup before (next morning)
+  sundayPercent: number;
+  waitingFreeMinutes: number;
+  waitingPerMinuteEUR: number;
+  extraStopEUR: number;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  vehicleClassPercent: { limousine: 0, van: 20, minibus: 50 },
+  nightPercent: 20,
+  nightFrom: "22:00",
+  nightUntil: "06:00",
+  sundayPercent: 10,
+  waitingFreeMinutes: 15,
+  waitingPerMinuteEUR: 0.5,
+  extraStopEUR: 10
+};
+
+const VEHICLE_CLASS_LINE_LABELS: Record<VehicleClass, string> = {
+  limousine: "Zuschlag Limousine",
+  van: "Zuschlag Van",
+  minibus: "Zuschlag Kleinbus"
+};
+
+/**
+ * DEFAULT_PRICING_RULES with the fields of a JSON override, e.g.
+ * '{"nightPercent":25,"vehicleClassPercent":{"van":30}}'. Invalid JSON
+ * falls back to the defaults.
+ */
+export function parsePricingRules(value?: string): PricingRules {
+  if (!value?.trim()) return DEFAULT_PRICING_RULES;
+  try {
+    const raw = JSON.parse(value);
+    return {
+      ...DEFAULT_PRICING_RULES,
+      ...raw,
+      vehicleClassPercent: {
+        ...DEFAULT_PRICING_RULES.vehicleClassPercent,
+        ...raw?.vehicleClassPercent
+      }
+    };
+  } catch {
+    console.error("Invalid PRICING_RULES, using defaults");
+    return DEFAULT_PRICING_RULES;
+  }
+}
+
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Pickup within [nightFrom, nightUntil), which may span midnight
+export function isNightRide(rideTime: string, rules: PricingRules): boolean {
+  const { nightFrom, nightUntil } = rules;
+  return nightFrom <= nightUntil
+    ? rideTime >= nightFrom && rideTime < nightUntil
+    : rideTime >= nightFrom || rideTime < nightUntil;
+}
+
+/**
+ * Itemized price for a base price. Percent surcharges all apply to the
+ * base, not to each other. `classIncluded` skips the vehicle class
+ * surcharge (the base already is the price for that class).
+ */
+export function priceLines(
+  args: {
+    baseEUR: number;
+    baseLabel: string;
+    vehicleClass?: VehicleClass | null;
+    classIncluded?: boolean;
+    rideDateISO: string;
+    rideTime: string;
+    waitingMinutes?: number;
+    extraStops?: number;
+  },
+  rules: PricingRules
+): { lines: QuoteLine[]; totalEUR: number } {
+  const { baseEUR } = args;
+  const lines: QuoteLine[] = [
+    { kind: "base", label: args.baseLabel, amountEUR: roundCents(baseEUR) }
+  ];
+  const add = (kind: QuoteLineKind, label: string, amount: number) => {
+    if (amount > 0) lines.push({ kind, label, amountEUR: roundCents(amount) });
+  };
+
+  if (args.vehicleClass && !args.classIncluded) {
+    add(
+      "vehicleClass",
+      VEHICLE_CLASS_LINE_LABELS[args.vehicleClass],
+      (baseEUR * rules.vehicleClassPercent[args.vehicleClass]) / 100
+    );
+  }
+  if (isNightRide(args.rideTime, rules)) {
+    add(
+      "night",
+      `Nachtzuschlag ${rules.nightPercent} %`,
+      (baseEUR * rules.nightPercent) / 100
+    );
+  }
+  if (isoWeekday(args.rideDateISO) === 7) {
+    add(
+      "sunday",
+      `Sonntagszuschlag ${rules.sundayPercent} %`,
+      (baseEUR * rules.sundayPercent) / 100
+    );
+  }
+
+  const billedWaiting = Math.max(
+    0,
+    (args.waitingMinutes ?? 0) - rules.waitingFreeMinutes
+  );
+  add(
+    "waiting",
+    `Wartezeit ${billedWaiting} min`,
+    billedWaiting * rules.waitingPerMinuteEUR
+  );
+  if (args.extraStops) {
+    add(
+      "extraStops",
+      `${args.extraStops} Zwischenstopp(s)`,
+      args.extraStops * rules.extraStopEUR
+    );
+  }
+
+  return {
+    lines,
+    totalEUR: roundCents(lines.reduce((sum, l) => sum + l.amountEUR, 0))
+  };
+}
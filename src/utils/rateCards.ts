@@ -0,0 +1,96 @@
+// utils/rateCards.ts
+import { normalizePlace } from "./dispatchConflicts";
+import { parseVehicleClass, VehicleClass } from "./vehicleClasses";
+
+export interface RateLine {
+  pickup: string;
+  dropoff: string;
+  vehicleClass: VehicleClass | null;
+  priceEUR: number;
+}
+
+// Imported `routes` metadata had no validity; it applies from here on
+export const LEGACY_RATE_CARD_VALID_FROM = "2000-01-01";
+
+/**
+ * Card in force on `dateISO`: the highest version whose validity covers
+ * the date, so a newer version replaces an older one without ending it.
+ */
+export function activeRateCard<
+  T extends { version: number; validFrom: string; validUntil: string | null }
+>(cards: T[], dateISO: string): T | null {
+  const day = dateISO.slice(0, 10);
+  return (
+    cards
+      .filter(
+        (c) => c.validFrom <= day && (!c.validUntil || day <= c.validUntil)
+      )
+      .sort((a, b) => b.version - a.version)[0] ?? null
+  );
+}
+
+function sameRoute(line: RateLine, pickup: string, dropoff: string) {
+  const start = normalizePlace(line.pickup);
+  const end = normalizePlace(line.dropoff);
+  return (
+    (start === pickup && end === dropoff) ||
+    (start === dropoff && end === pickup)
+  );
+}
+
+/**
+ * Line for the route (either direction). A line for the requested class
+ * wins over one without class; lines for another class don't apply.
+ */
+export function matchRateLine<T extends RateLine>(
+  lines: T[],
+  pickup: string,
+  dropoff: string,
+  vehicleClass: VehicleClass | null
+): T | null {
+  const matching = lines.filter(
+    (l) =>
+      sameRoute(l, normalizePlace(pickup), normalizePlace(dropoff)) &&
+      (!l.vehicleClass || l.vehicleClass === vehicleClass)
+  );
+  return matching.find((l) => !!l.vehicleClass) ?? matching[0] ?? null;
+}
+
+/**
+ * Two lines for the same route and class (in any direction), which would
+ * make the price ambiguous; null if there are none.
+ */
+export function duplicateRateLine(lines: RateLine[]): RateLine | null {
+  const seen = new Set<string>();
+  for (const l of lines) {
+    const ends = [normalizePlace(l.pickup), normalizePlace(l.dropoff)].sort();
+    const key = `${ends.join("\u0000")}\u0000${l.vehicleClass ?? ""}`;
+    if (seen.has(key)) return l;
+    seen.add(key);
+  }
+  return null;
+}
+
+/**
+ * Lines for `routes` user metadata entries with a price (the pre-rate-card
+ * contract prices). Free-text vehicles that aren't a known class apply to
+ * any class; later duplicates are dropped.
+ */
+export function rateLinesFromRoutes(
+  routes: { start: string; end: string; price: number; vehicle?: string }[]
+): RateLine[] {
+  const lines: RateLine[] = [];
+  for (const r of routes) {
+    if (!r?.start?.trim() || !r?.end?.trim()) continue;
+    if (typeof r.price !== "number" || !Number.isFinite(r.price)) continue;
+
+    const line: RateLine = {
+      pickup: r.start.trim(),
+      dropoff: r.end.trim(),
+      vehicleClass: parseVehicleClass(r.vehicle),
+      priceEUR: r.price
+    };
+    if (!duplicateRateLine([...lines, line])) lines.push(line);
+  }
+  return lines;
+}
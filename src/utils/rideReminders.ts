@@ -0,0 +1,93 @@
+// utils/rideReminders.ts
+import type { TransferAudience } from "./transferNotifications";
+
+// rideDateISO / rideTime are local times of the business
+export const RIDE_TIMEZONE = "Europe/Vienna";
+
+export interface RideReminder {
+  kind: string; // TransferReminder.kind, unique per reminder
+  minutesBefore: number;
+  audiences: TransferAudience[];
+}
+
+// Used unless RIDE_REMINDER_MINUTES is configured
+export const DEFAULT_RIDE_REMINDERS: RideReminder[] = [
+  { kind: "24h", minutesBefore: 24 * 60, audiences: ["customer", "driver"] },
+  { kind: "1h", minutesBefore: 60, audiences: ["customer", "driver"] }
+];
+
+// Confirmed rides without a driver this close to pickup go to dispatch
+export const UNASSIGNED_ESCALATION_KIND = "unassigned";
+export const DEFAULT_UNASSIGNED_ESCALATION_MINUTES = 120;
+
+/**
+ * "1440,60" → reminders 24h and 1h before pickup for customer and driver.
+ * Invalid or empty values fall back to DEFAULT_RIDE_REMINDERS.
+ */
+export function parseRideReminders(value?: string): RideReminder[] {
+  const minutes = (value ?? "")
+    .split(",")
+    .map((v) => Number(v.trim()))
+    .filter((m) => Number.isInteger(m) && m > 0);
+  if (!minutes.length) return DEFAULT_RIDE_REMINDERS;
+
+  return [...new Set(minutes)].map((m) => ({
+    kind: m % 60 === 0 ? `${m / 60}h` : `${m}m`,
+    minutesBefore: m,
+    audiences: ["customer", "driver"]
+  }));
+}
+
+// Offset of `timezone` from UTC at `at`, in minutes
+function timezoneOffset(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(at);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const local = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute")
+  );
+  return Math.round((local - at.getTime()) / 60_000);
+}
+
+/**
+ * Pickup instant of a ride, or null if date / time don't parse.
+ */
+export function rideStartsAt(
+  rideDateISO: string,
+  rideTime: string,
+  timezone: string = RIDE_TIMEZONE
+): Date | null {
+  const d = /^(\d{4})-(\d{2})-(\d{2})/.exec(rideDateISO);
+  const t = /^(\d{1,2}):(\d{2})/.exec(rideTime);
+  if (!d || !t) return null;
+
+  const wallClock = Date.UTC(+d[1], +d[2] - 1, +d[3], +t[1], +t[2]);
+  // Two passes so rides right after a DST switch get the right offset
+  let utc = wallClock - timezoneOffset(new Date(wallClock), timezone) * 60_000;
+  utc = wallClock - timezoneOffset(new Date(utc), timezone) * 60_000;
+  return new Date(utc);
+}
+
+/**
+ * YYYY-MM-DD of `at` in `timezone`.
+ */
+export function localDateISO(at: Date, timezone: string = RIDE_TIMEZONE) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).format(at);
+}
@@ -92,3 +92,21 @@ export function monthlyRowFormulas_SQL(
     transferId                                    // J (hidden)
   ];
 }
+
+/**
+ * Amount of a cell as the Sheets API returns it (FORMATTED_VALUE), in either
+ * locale: "45,00 €", "1.234,50", "12.5". NaN if it is no number.
+ */
+export function parseSheetAmount(text: string): number {
+  let v = text.replace(/[€\s]/g, "");
+  const comma = v.lastIndexOf(",");
+  const dot = v.lastIndexOf(".");
+  if (comma > dot) {
+    v = v.replace(/\./g, "").replace(",", ".");
+  } else if (comma >= 0) {
+    v = v.replace(/,/g, "");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(v)) {
+    v = v.replace(/\./g, ""); // "1.500" is a de-AT thousands separator
+  }
+  return v ? Number(v) : NaN;
+}
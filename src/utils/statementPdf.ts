@@ -0,0 +1,219 @@
+// utils/statementPdf.ts
+//
+// PDF layout of the monthly statement ("ABRECHNUNG") and of invoices,
+// following the monthly sheet: title, customer name and Kundennummer,
+// header row, bordered numbered rows and the bold totals block below.
+import { BillingRules, BillingTotals } from "./billingRules";
+import { formatAmount } from "./notificationTemplates";
+import {
+  A4_LANDSCAPE,
+  fitPdfText,
+  PdfColor,
+  PdfDocument
+} from "./pdfDocument";
+import { MONTH_HEADERS_VISIBLE } from "./sheetsFormatting";
+
+export interface StatementColumn {
+  label: string;
+  width: number; // relative, scaled to the page width
+  align?: "left" | "center" | "right";
+}
+
+export interface StatementPdfInput {
+  title: string;
+  customerName: string;
+  customerNumber: string;
+  details?: string[]; // lines between header and table
+  columns: StatementColumn[];
+  rows: string[][];
+  totals: { label: string; value: string }[];
+  // Column of the Kundennummer and the totals; their labels are
+  // right-aligned against it
+  amountColumn: number;
+}
+
+// Same column widths (px) as the monthly sheet, A..I
+export const MONTHLY_STATEMENT_COLUMNS: StatementColumn[] = [
+  40, 100, 70, 220, 220, 180, 110, 110, 130
+].map((width, i) => ({
+  label: MONTH_HEADERS_VISIBLE[i],
+  width,
+  align: i === 0 ? "center" : i === 7 ? "right" : "left"
+}));
+
+const HEADER_GRAY: PdfColor = [0.953, 0.957, 0.965]; // COLOR.headerGray
+const MARGIN = 36;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 8;
+const CELL_PADDING = 3;
+
+export function percentLabel(percent: number): string {
+  return `${String(percent).replace(".", ",")}%`;
+}
+
+/**
+ * Totals rows with the labels of the monthly sheet. With more than one VAT
+ * rate (invoices with extras) the VAT is listed per rate.
+ */
+export function statementTotals(
+  totals: BillingTotals,
+  rules: BillingRules
+): { label: string; value: string }[] {
+  const eur = (v: number) => formatAmount(v, "de-AT");
+  const rows = [{ label: "Gesamtsumme:", value: eur(totals.sumEUR) }];
+  if (totals.voucherEUR !== 0) {
+    rows.push({
+      label: "LIMOSEN KG 100% Rabatt Gutscheine:",
+      value: eur(totals.voucherEUR)
+    });
+  }
+  rows.push({
+    label: "Rechnungsbetrag nach Abzug Gutscheine:",
+    value: eur(totals.netEUR)
+  });
+
+  const single = totals.vatLines.length <= 1;
+  if (!single) {
+    for (const v of totals.vatLines) {
+      rows.push({
+        label: `${percentLabel(v.percent)} MwSt von ${eur(v.netEUR)}:`,
+        value: eur(v.vatEUR)
+      });
+    }
+  }
+  const vatLabel = single
+    ? `Gesamt Rechnungsbetrag inkl. ${percentLabel(
+        totals.vatLines[0]?.percent ?? rules.transportVatPercent
+      )} MwSt`
+    : "Gesamt Rechnungsbetrag inkl. MwSt";
+  rows.push({ label: `${vatLabel}:`, value: eur(totals.grossEUR) });
+
+  if (rules.earlyPaymentDiscountPercent > 0) {
+    rows.push({
+      label: `${vatLabel} mit ${percentLabel(
+        rules.earlyPaymentDiscountPercent
+      )} Rabatt:`,
+      value: eur(totals.discountedGrossEUR)
+    });
+  }
+  return rows;
+}
+
+/**
+ * A4 landscape PDF. The header row repeats on every page, the totals block
+ * is kept together and every page gets a "Seite x / y" footer.
+ */
+export function renderStatementPdf(input: StatementPdfInput): Uint8Array {
+  const pdf = new PdfDocument(A4_LANDSCAPE.width, A4_LANDSCAPE.height);
+  const contentWidth = pdf.width - 2 * MARGIN;
+  const bottom = pdf.height - MARGIN - ROW_HEIGHT; // room for the footer
+
+  const scale =
+    contentWidth / input.columns.reduce((s, c) => s + c.width, 0);
+  const widths = input.columns.map((c) => c.width * scale);
+  const lefts = widths.map((_, i) =>
+    widths.slice(0, i).reduce((s, w) => s + w, MARGIN)
+  );
+
+  const cell = (
+    i: number,
+    y: number,
+    value: string,
+    opts: { bold?: boolean; align?: "left" | "center" | "right" } = {}
+  ) => {
+    const inner = widths[i] - 2 * CELL_PADDING;
+    pdf.text(
+      lefts[i] + CELL_PADDING,
+      y + ROW_HEIGHT - 5,
+      fitPdfText(value, inner, FONT_SIZE, opts.bold),
+      {
+        size: FONT_SIZE,
+        bold: opts.bold,
+        align: opts.align ?? input.columns[i].align,
+        width: inner
+      }
+    );
+  };
+
+  const tableHeader = (y: number) => {
+    pdf.rect(MARGIN, y, contentWidth, ROW_HEIGHT, { fill: HEADER_GRAY });
+    input.columns.forEach((c, i) =>
+      cell(i, y, c.label, { bold: true, align: "center" })
+    );
+    return y + ROW_HEIGHT;
+  };
+
+  // Title block (sheet rows 1 and 2)
+  pdf.addPage();
+  let y = MARGIN;
+  pdf.text(MARGIN, y + 14, input.title, { size: 14, bold: true });
+  y += 24;
+  const labelRight = lefts[input.amountColumn] - CELL_PADDING;
+  pdf.text(
+    MARGIN,
+    y + 10,
+    fitPdfText(input.customerName, (labelRight - MARGIN) / 2, 10, true),
+    { size: 10, bold: true }
+  );
+  pdf.text(MARGIN, y + 10, "Kundennummer:", {
+    size: 10,
+    bold: true,
+    align: "right",
+    width: labelRight - MARGIN
+  });
+  pdf.text(
+    lefts[input.amountColumn] + CELL_PADDING,
+    y + 10,
+    input.customerNumber,
+    { size: 10, bold: true }
+  );
+  y += 18;
+  for (const line of input.details ?? []) {
+    pdf.text(MARGIN, y + 9, fitPdfText(line, contentWidth, 9), { size: 9 });
+    y += 13;
+  }
+  y += 6;
+
+  // Rows (bordered like the sheet's data range)
+  y = tableHeader(y);
+  for (const row of input.rows) {
+    if (y + ROW_HEIGHT > bottom) {
+      pdf.addPage();
+      y = tableHeader(MARGIN);
+    }
+    pdf.rect(MARGIN, y, contentWidth, ROW_HEIGHT, { stroke: [0, 0, 0] });
+    input.columns.forEach((_, i) => {
+      if (i > 0) pdf.line(lefts[i], y, lefts[i], y + ROW_HEIGHT);
+      cell(i, y, row[i] ?? "");
+    });
+    y += ROW_HEIGHT;
+  }
+
+  // Totals block after a spacer row, labels right-aligned up to the value
+  y += ROW_HEIGHT;
+  if (y + input.totals.length * ROW_HEIGHT > bottom) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  for (const t of input.totals) {
+    pdf.text(MARGIN, y + ROW_HEIGHT - 5, t.label, {
+      size: FONT_SIZE,
+      bold: true,
+      align: "right",
+      width: labelRight - MARGIN
+    });
+    cell(input.amountColumn, y, t.value, { bold: true, align: "right" });
+    y += ROW_HEIGHT;
+  }
+
+  const pages = pdf.pageCount;
+  for (let i = 0; i < pages; i++) {
+    pdf.setPage(i);
+    pdf.text(MARGIN, pdf.height - MARGIN / 2, `Seite ${i + 1} / ${pages}`, {
+      size: 7,
+      align: "right",
+      width: contentWidth
+    });
+  }
+  return pdf.toBytes();
+}
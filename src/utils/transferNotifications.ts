@@ -0,0 +1,62 @@
+// utils/transferNotifications.ts
+import type { NotificationCategory } from "./notificationPreferences";
+
+/**
+ * Transfer lifecycle events that trigger pushes.
+ */
+export type TransferEvent =
+  | "created"
+  | "priceAssigned"
+  | "confirmed"
+  | "driverAssigned"
+  | "driverDeclined"
+  | "canceled"
+  | "terminated"
+  | "completed";
+
+export const TRANSFER_EVENT_CATEGORY: Record<
+  TransferEvent,
+  NotificationCategory
+> = {
+  created: "booking",
+  priceAssigned: "booking",
+  confirmed: "booking",
+  driverAssigned: "assignment",
+  driverDeclined: "assignment",
+  canceled: "rideStatus",
+  terminated: "rideStatus",
+  completed: "rideStatus"
+};
+
+// Delivered even during quiet hours
+export const URGENT_TRANSFER_EVENTS: TransferEvent[] = [
+  "driverDeclined",
+  "canceled",
+  "terminated"
+];
+
+// Who gets told about an event
+export type TransferAudience = "customer" | "driver" | "dispatch";
+
+// Who is notified per event (never the user who caused it); texts live in
+// utils/notificationTemplates.ts under "transfer.<event>.<audience>"
+export const TRANSFER_EVENT_AUDIENCES: Record<TransferEvent, TransferAudience[]> =
+  {
+    created: ["customer", "dispatch"],
+    priceAssigned: ["customer"],
+    confirmed: ["customer", "driver"],
+    driverAssigned: ["customer", "driver"],
+    driverDeclined: ["dispatch"],
+    canceled: ["customer", "driver", "dispatch"],
+    terminated: ["customer", "driver"],
+    completed: ["customer", "dispatch"]
+  };
+
+/**
+ * Deep link the service worker opens on click. Relative unless APP_URL is
+ * configured, so it resolves against the app origin.
+ */
+export function transferDeepLink(transferId: string, appUrl?: string): string {
+  const path = `/transfers/${encodeURIComponent(transferId)}`;
+  return appUrl ? `${appUrl.replace(/\/+$/, "")}${path}` : path;
+}
@@ -0,0 +1,71 @@
+// utils/transferStateMachine.ts
+import type { RideProgress, TransferState } from "../d1.service";
+import { InvalidTransferTransitionError } from "../errors/transfer.errors";
+
+// Every transfer starts here
+export const INITIAL_TRANSFER_STATE: TransferState = "pending";
+
+// Allowed transitions per state (complete / terminated are final)
+export const TRANSFER_TRANSITIONS: Record<TransferState, TransferState[]> = {
+  pending: ["confirmed", "canceled", "terminated", "complete"],
+  confirmed: ["terminated", "complete"],
+  canceled: ["terminated"],
+  complete: [],
+  terminated: []
+};
+
+export function allowedTransitions(from: TransferState): TransferState[] {
+  return TRANSFER_TRANSITIONS[from] ?? [];
+}
+
+export function canTransition(from: TransferState, to: TransferState): boolean {
+  return allowedTransitions(from).includes(to);
+}
+
+/**
+ * Throws InvalidTransferTransitionError unless `from → to` is allowed.
+ */
+export function assertTransition(from: TransferState, to: TransferState) {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransferTransitionError(from, to);
+  }
+}
+
+export function isFinalState(state: TransferState): boolean {
+  return allowedTransitions(state).length === 0;
+}
+
+// ---------- Driver progress (sub-state of pending / confirmed) ----------
+
+// States in which the assigned driver works on the ride
+export const DRIVER_ACTIVE_STATES: TransferState[] = ["pending", "confirmed"];
+
+// Allowed progress steps; null = no driver assigned
+export const RIDE_PROGRESS_TRANSITIONS: Record<RideProgress, RideProgress[]> = {
+  assigned: ["accepted"],
+  accepted: ["enRoute"],
+  enRoute: ["atPickup"],
+  atPickup: ["finished"],
+  finished: []
+};
+
+// Drivers may hand a ride back until they set off
+export const DECLINABLE_PROGRESS: RideProgress[] = ["assigned", "accepted"];
+
+/**
+ * Throws InvalidTransferTransitionError unless the driver may move the ride
+ * from `from` to `to` while the transfer is in `state`.
+ */
+export function assertProgress(
+  state: TransferState,
+  from: RideProgress | null | undefined,
+  to: RideProgress
+) {
+  const allowed =
+    DRIVER_ACTIVE_STATES.includes(state) &&
+    !!from &&
+    RIDE_PROGRESS_TRANSITIONS[from].includes(to);
+  if (!allowed) {
+    throw new InvalidTransferTransitionError(from ?? state, to);
+  }
+}
@@ -0,0 +1,78 @@
+// utils/vehicleClasses.ts
+
+// Mirrors the Prisma enum (GraphQL enum values can't contain hyphens)
+export type VehicleClass = "limousine" | "van" | "minibus";
+
+export const VEHICLE_CLASSES: VehicleClass[] = ["limousine", "van", "minibus"];
+
+// "Wagen" as written to the sheets
+export const VEHICLE_CLASS_LABELS: Record<VehicleClass, string> = {
+  limousine: "Limousine",
+  van: "Van",
+  minibus: "Kleinbus"
+};
+
+// Free-text values used before the fleet registry; keep in sync with the
+// 20261019200000_vehicle_fleet migration
+const LEGACY_VEHICLE_NAMES: Record<string, VehicleClass> = {
+  limousine: "limousine",
+  limo: "limousine",
+  pkw: "limousine",
+  sedan: "limousine",
+  "e-klasse": "limousine",
+  "s-klasse": "limousine",
+  van: "van",
+  minivan: "van",
+  "v-klasse": "van",
+  kleinbus: "minibus",
+  minibus: "minibus",
+  bus: "minibus",
+  sprinter: "minibus"
+};
+
+/**
+ * Class for an enum value, a label ("Kleinbus") or a legacy free-text
+ * value; null if unknown.
+ */
+export function parseVehicleClass(
+  value: string | null | undefined
+): VehicleClass | null {
+  if (!value) return null;
+  return LEGACY_VEHICLE_NAMES[value.trim().toLowerCase()] ?? null;
+}
+
+// " w 12345a " → "W-12345A"
+export function normalizePlate(plate: string): string {
+  return plate
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, "-")
+    .replace(/^([A-ZÄÖÜ]{1,2})(?=\d)/, "$1-");
+}
+
+/**
+ * Readable "Wagen" for the sheets: "Van (W-12345A)", or just the class
+ * label while no vehicle is assigned.
+ */
+export function vehicleDisplayName(
+  vehicleClass: VehicleClass,
+  vehicle?: { plate: string; name?: string | null } | null
+): string {
+  if (!vehicle) return VEHICLE_CLASS_LABELS[vehicleClass];
+  return `${vehicle.name || VEHICLE_CLASS_LABELS[vehicleClass]} (${
+    vehicle.plate
+  })`;
+}
+
+/**
+ * Reverse of vehicleDisplayName: "Van (W-12345A)" → name "Van" and plate
+ * "W-12345A". Values without a plate are returned as the name.
+ */
+export function splitVehicleDisplayName(value: string): {
+  name: string;
+  plate: string | null;
+} {
+  const m = /^(.*?)\s*\(([^()]+)\)\s*$/.exec(value.trim());
+  if (!m) return { name: value.trim(), plate: null };
+  return { name: m[1], plate: normalizePlate(m[2]) };
+}